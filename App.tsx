@@ -1,29 +1,149 @@
-import React, { useState } from 'react';
-import { AppStep } from './types';
+import React, { useState, useEffect } from 'react';
+import { AppStep, CompositeRecord, EditorSession, ImageAsset, Project, TimelineClip, VideoRecord } from './types';
 import LocationFinder from './components/LocationFinder';
-import ImageEditor from './components/ImageEditor';
+import ImageEditor, { EditorSessionChange } from './components/ImageEditor';
 import VideoAnimator from './components/VideoAnimator';
-import { MapPin, Image as ImageIcon, Video, Zap } from 'lucide-react';
+import Timeline from './components/Timeline';
+import ProjectGallery from './components/ProjectGallery';
+import BatchRunner from './components/BatchRunner';
+import { BatchItem, placeSubject } from './services/batchRunner';
+import { getPendingVideoJobFor } from './services/videoJobs';
+import { createProject, getProject, saveProject, getCurrentProjectId, setCurrentProjectId } from './services/projectStore';
+import { showErrorToast } from './services/notifications';
+import ToastHost from './components/ui/ToastHost';
+import { MapPin, Image as ImageIcon, Video, Zap, FolderOpen, Layers } from 'lucide-react';
+
+const AUTOSAVE_DELAY_MS = 500;
+
+// A video job the project still had running before a reload takes us straight back to the animator
+const resumeStep = (project: Project) => getPendingVideoJobFor(project.id) ? AppStep.ANIMATE : project.step;
+
+// Nothing worth saving until a setting has been generated
+const hasContent = (project: Project) => !!project.locationImage;
 
 const App: React.FC = () => {
-  const [currentStep, setCurrentStep] = useState<AppStep>(AppStep.SEARCH);
-  
-  // State for passing data between steps
-  const [selectedLocationName, setSelectedLocationName] = useState<string>('');
-  const [selectedLocationImage, setSelectedLocationImage] = useState<string>(''); // Base64
-  const [finalCompositeImage, setFinalCompositeImage] = useState<string>(''); // Base64
+  // The whole session lives in one project record, which is autosaved to IndexedDB
+  const [project, setProject] = useState<Project>(createProject);
+  // The step flow waits for the saved project, so a resumed video job lands in it and not in a throwaway one
+  const [isRestoring, setIsRestoring] = useState(() => !!getCurrentProjectId());
+  const [panel, setPanel] = useState<'gallery' | 'batch' | null>(null); // Shown instead of the step flow
+  // Batch mode stays mounted once opened, so a running batch and its results survive opening an item or switching panels
+  const [hasOpenedBatch, setHasOpenedBatch] = useState(false);
+  const currentStep = project.step;
+
+  const updateProject = (changes: Partial<Project>) => {
+    setProject(p => ({ ...p, ...changes, updatedAt: Date.now() }));
+  };
+
+  const setCurrentStep = (step: AppStep) => updateProject({ step });
+
+  const persistProject = async (toSave: Project) => {
+    if (!hasContent(toSave)) return;
+    try {
+      await saveProject(toSave);
+      setCurrentProjectId(toSave.id);
+    } catch (error) {
+      console.error("Failed to save project:", error);
+    }
+  };
+
+  // Reopen whatever we were working on before the reload
+  useEffect(() => {
+    const id = getCurrentProjectId();
+    if (!id) return;
+    getProject(id)
+      .then(saved => {
+        if (saved) setProject({ ...saved, step: resumeStep(saved) });
+      })
+      .catch(error => console.error("Failed to restore project:", error))
+      .finally(() => setIsRestoring(false));
+  }, []);
+
+  useEffect(() => {
+    if (!hasContent(project)) return;
+    const timer = setTimeout(() => persistProject(project), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [project]);
 
   // --- Handlers ---
 
-  const handleLocationSelected = (name: string, imageBase64: string) => {
-    setSelectedLocationName(name);
-    setSelectedLocationImage(imageBase64);
-    setCurrentStep(AppStep.COMPOSITE);
+  const handleLocationSelected = (name: string, image: ImageAsset, query: string) => {
+    const location = { name, query, locationName: name, locationImage: image, finalComposite: null, step: AppStep.COMPOSITE };
+    if (project.composites.length > 0) {
+      // Keep the existing project's history intact; carry the subjects over into a fresh one
+      persistProject(project);
+      setProject({ ...createProject(), layers: project.layers, ...location });
+    } else {
+      updateProject(location);
+    }
+  };
+
+  const handleEditorSessionChange = (changes: EditorSessionChange) => {
+    setProject(p => ({ ...p, ...(typeof changes === 'function' ? changes(p) : changes), updatedAt: Date.now() }));
+  };
+
+  const handleCompositionComplete = (composite: ImageAsset) => {
+    updateProject({ finalComposite: composite, step: AppStep.ANIMATE });
+  };
+
+  const handleVideoGenerated = (video: VideoRecord) => {
+    setProject(p => ({ ...p, videos: [...p.videos, video], updatedAt: Date.now() }));
+  };
+
+  // A still from a video becomes a new root version in the editor, ready for further edits
+  const handleEditFrame = (frame: ImageAsset, label: string) => {
+    const record: CompositeRecord = { id: crypto.randomUUID(), parentId: null, image: frame, prompt: label, kind: 'video-frame', strategy: null, createdAt: Date.now() };
+    setProject(p => ({
+      ...p,
+      locationImage: p.locationImage ?? frame,
+      composites: [...p.composites, record],
+      currentCompositeId: record.id,
+      step: AppStep.COMPOSITE,
+      updatedAt: Date.now(),
+    }));
   };
 
-  const handleCompositionComplete = (compositeBase64: string) => {
-    setFinalCompositeImage(compositeBase64);
-    setCurrentStep(AppStep.ANIMATE);
+  const handleTimelineChange = (update: (timeline: TimelineClip[]) => TimelineClip[]) => {
+    setProject(p => ({ ...p, timeline: update(p.timeline), updatedAt: Date.now() }));
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const saved = await getProject(id);
+      if (!saved) return;
+      await persistProject(project);
+      // Only a video job started in this project sends it to the animator
+      setProject({ ...saved, step: resumeStep(saved) });
+      setCurrentProjectId(saved.id);
+      setPanel(null);
+    } catch (error) {
+      showErrorToast("Failed to open project", error, () => handleOpenProject(id));
+    }
+  };
+
+  const handleNewProject = async () => {
+    await persistProject(project);
+    setProject(createProject());
+    setCurrentProjectId(null);
+    setPanel(null);
+  };
+
+  // A finished batch result becomes a regular project, ready for further edits in the composer
+  const handleOpenBatchItem = async (item: BatchItem) => {
+    if (!item.background || !item.composite) return;
+    await persistProject(project);
+    const now = Date.now();
+    setProject({
+      ...createProject(),
+      name: `${item.location.name} - ${item.subject.name}`,
+      step: AppStep.COMPOSITE,
+      locationName: item.location.name,
+      locationImage: item.background,
+      layers: [placeSubject(item.subject)],
+      composites: [{ id: crypto.randomUUID(), parentId: null, image: item.composite, prompt: 'Batch composite', kind: 'composite', strategy: 'merge-refine', createdAt: now }],
+      videos: item.video && item.videoSettings ? [{ id: crypto.randomUUID(), blob: item.video, prompt: 'Batch video', aspectRatio: item.videoSettings.aspectRatio, settings: item.videoSettings, createdAt: now }] : [],
+    });
+    setPanel(null);
   };
 
   // --- Render ---
@@ -84,8 +204,22 @@ const App: React.FC = () => {
                 Robo<span className="text-blue-400">AI</span> <span className="text-slate-400 font-normal text-lg ml-2 hidden sm:inline">Image to Setting Animator</span>
               </h1>
             </div>
-            <div className="text-xs text-slate-500 font-mono border border-slate-800 rounded px-2 py-1">
-              v3.1.0
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => { setHasOpenedBatch(true); setPanel(p => p === 'batch' ? null : 'batch'); }}
+                className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded-lg border transition-colors ${panel === 'batch' ? 'bg-blue-600 border-blue-500 text-white' : 'border-slate-700 text-slate-300 hover:text-white hover:border-slate-500'}`}
+              >
+                <Layers size={16} /> Batch
+              </button>
+              <button
+                onClick={() => setPanel(p => p === 'gallery' ? null : 'gallery')}
+                className={`flex items-center gap-2 text-sm px-3 py-1.5 rounded-lg border transition-colors ${panel === 'gallery' ? 'bg-blue-600 border-blue-500 text-white' : 'border-slate-700 text-slate-300 hover:text-white hover:border-slate-500'}`}
+              >
+                <FolderOpen size={16} /> Projects
+              </button>
+              <div className="text-xs text-slate-500 font-mono border border-slate-800 rounded px-2 py-1">
+                v3.1.0
+              </div>
             </div>
           </div>
         </header>
@@ -93,32 +227,71 @@ const App: React.FC = () => {
         {/* Main Content */}
         <main className="flex-1 max-w-7xl mx-auto w-full px-6 py-12">
           
-          {renderStepIndicator()}
-
-          <div className="animate-in fade-in slide-in-from-bottom-4 duration-500">
-            {currentStep === AppStep.SEARCH && (
-              <LocationFinder onLocationSelected={handleLocationSelected} />
-            )}
-
-            {currentStep === AppStep.COMPOSITE && (
-              <ImageEditor 
-                locationName={selectedLocationName}
-                locationImage={selectedLocationImage}
-                onComplete={handleCompositionComplete}
-                onBack={() => setCurrentStep(AppStep.SEARCH)}
-              />
-            )}
-
-            {currentStep === AppStep.ANIMATE && (
-              <VideoAnimator 
-                sourceImage={finalCompositeImage}
-                onBack={() => setCurrentStep(AppStep.COMPOSITE)}
-              />
-            )}
-          </div>
+          {hasOpenedBatch && (
+            <div className={panel === 'batch' ? '' : 'hidden'}>
+              <BatchRunner onOpenItem={handleOpenBatchItem} onClose={() => setPanel(null)} />
+            </div>
+          )}
+
+          {panel === 'gallery' ? (
+            <ProjectGallery
+              currentProjectId={hasContent(project) ? project.id : null}
+              onOpen={handleOpenProject}
+              onNew={handleNewProject}
+              onClose={() => setPanel(null)}
+            />
+          ) : panel === 'batch' || isRestoring ? null : (
+            <>
+              {renderStepIndicator()}
+
+              <div key={project.id} className="animate-in fade-in slide-in-from-bottom-4 duration-500">
+                {currentStep === AppStep.SEARCH && (
+                  <LocationFinder initialQuery={project.query} onLocationSelected={handleLocationSelected} />
+                )}
+
+                {currentStep === AppStep.COMPOSITE && project.locationImage && (
+                  <ImageEditor 
+                    locationName={project.locationName}
+                    locationImage={project.locationImage}
+                    session={project}
+                    onSessionChange={handleEditorSessionChange}
+                    onComplete={handleCompositionComplete}
+                    onBack={() => setCurrentStep(AppStep.SEARCH)}
+                  />
+                )}
+
+                {currentStep === AppStep.ANIMATE && (
+                  <VideoAnimator 
+                    projectId={project.id}
+                    locationName={project.locationName}
+                    sourceImage={project.finalComposite}
+                    history={project.composites}
+                    savedVideos={project.videos}
+                    onVideoGenerated={handleVideoGenerated}
+                    onEditFrame={handleEditFrame}
+                    onBack={() => setCurrentStep(project.locationImage ? AppStep.COMPOSITE : AppStep.SEARCH)}
+                  />
+                )}
+
+                {currentStep === AppStep.ANIMATE && (
+                  <Timeline
+                    projectId={project.id}
+                    locationName={project.locationName}
+                    videos={project.videos}
+                    timeline={project.timeline}
+                    composites={project.composites}
+                    onTimelineChange={handleTimelineChange}
+                    onVideoGenerated={handleVideoGenerated}
+                  />
+                )}
+              </div>
+            </>
+          )}
 
         </main>
 
+        <ToastHost />
+
         {/* Footer */}
         <footer className="border-t border-slate-800 bg-slate-950 py-8 text-center text-slate-500 text-sm">
            <p>Powered by Gemini 2.5 Flash, Nano Banana, and Veo.</p>
@@ -0,0 +1,226 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { editImage } from '../services/geminiService';
+import { showErrorToast } from '../services/notifications';
+import { requireImage } from '../services/aiErrors';
+import Button from './ui/Button';
+import Card from './ui/Card';
+import CameraCapture from './CameraCapture';
+import { ImageAsset } from '../types';
+import { normalizeImageFile, fetchImageFile, toDataUrl } from '../utils';
+import { Upload, Camera, Link, Sparkles, ArrowRight, X } from 'lucide-react';
+
+interface BackgroundImportProps {
+  onUse: (name: string, image: ImageAsset) => void;
+}
+
+// Variations keep the real place and only change the conditions, so the result is still "their" location
+const VARIATION_CONDITIONS = [
+  'golden hour sunlight with long, warm shadows',
+  'overcast sky with soft, diffuse daylight',
+  'blue hour at dusk with the lights switched on',
+];
+
+const variationPrompt = (conditions: string) =>
+  `Create a photorealistic variation of this location photo. Keep the same place, layout and camera angle, but change the conditions to: ${conditions}. Do not add any people.`;
+
+const nameFromFile = (fileName: string) => fileName.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ').trim();
+
+const BackgroundImport: React.FC<BackgroundImportProps> = ({ onUse }) => {
+  const [original, setOriginal] = useState<ImageAsset | null>(null);
+  const [variations, setVariations] = useState<ImageAsset[]>([]);
+  const [chosen, setChosen] = useState<ImageAsset | null>(null);
+  const [name, setName] = useState('');
+  const [url, setUrl] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [isGeneratingVariations, setIsGeneratingVariations] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isDragOver, setIsDragOver] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const setBackground = (image: ImageAsset, suggestedName: string) => {
+    setOriginal(image);
+    setChosen(image);
+    setVariations([]);
+    // Don't overwrite a name the user already typed
+    setName(current => current || suggestedName);
+  };
+
+  const importFile = async (file: File) => {
+    setIsLoading(true);
+    try {
+      setBackground(await normalizeImageFile(file), nameFromFile(file.name));
+    } catch (error) {
+      showErrorToast("Could not read that image", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) importFile(file);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const file = Array.from(e.dataTransfer.files).find(f => f.type.startsWith('image/'));
+    if (file) importFile(file);
+  };
+
+  const handleUrlImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+    setIsLoading(true);
+    try {
+      const file = await fetchImageFile(url.trim());
+      setBackground(await normalizeImageFile(file), nameFromFile(file.name));
+      setUrl('');
+    } catch (error) {
+      showErrorToast("Could not load that link", error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleCameraCapture = (image: ImageAsset) => {
+    setIsCameraOpen(false);
+    setBackground(image, '');
+  };
+
+  // Pasting a copied image anywhere on the page imports it
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const file = Array.from(e.clipboardData?.files || []).find(f => f.type.startsWith('image/'));
+      if (!file) return;
+      e.preventDefault();
+      importFile(file);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, []);
+
+  const handleGenerateVariations = async () => {
+    if (!original) return;
+    setIsGeneratingVariations(true);
+    try {
+      const results = await Promise.allSettled(VARIATION_CONDITIONS.map(c => editImage(original, variationPrompt(c)).then(requireImage)));
+      const generated = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+      results.forEach(r => r.status === 'rejected' && console.error(r.reason));
+      if (generated.length === 0) throw new Error("No variations were generated");
+      setVariations(generated);
+    } catch (error) {
+      showErrorToast("Failed to generate variations. You can still use the original photo", error, handleGenerateVariations);
+    } finally {
+      setIsGeneratingVariations(false);
+    }
+  };
+
+  const handleClear = () => {
+    setOriginal(null);
+    setChosen(null);
+    setVariations([]);
+    setName('');
+  };
+
+  return (
+    <Card title="Or Use Your Own Background">
+      {!original ? (
+        <div className="space-y-4">
+          <div
+            onDragOver={(e) => { e.preventDefault(); setIsDragOver(true); }}
+            onDragLeave={() => setIsDragOver(false)}
+            onDrop={handleDrop}
+            className={`rounded-lg border-2 border-dashed p-8 text-center transition-colors ${isDragOver ? 'border-blue-500 bg-blue-900/20' : 'border-slate-600'}`}
+          >
+            {isLoading ? (
+              <p className="text-blue-300 animate-pulse">Loading image...</p>
+            ) : (
+              <>
+                <div className="flex flex-wrap justify-center gap-3">
+                  <Button onClick={() => fileInputRef.current?.click()} variant="secondary" className="px-4 py-2">
+                    <Upload size={18} /> Upload Photo
+                  </Button>
+                  <Button onClick={() => setIsCameraOpen(true)} variant="secondary" className="px-4 py-2">
+                    <Camera size={18} /> Use Camera
+                  </Button>
+                </div>
+                <p className="text-xs text-slate-500 mt-3">Or drop an image here, or paste one from the clipboard.</p>
+              </>
+            )}
+          </div>
+
+          <form onSubmit={handleUrlImport} className="flex gap-3">
+            <div className="flex-1 relative">
+              <Link className="absolute left-3 top-1/2 -translate-y-1/2 text-slate-500" size={16} />
+              <input
+                type="url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://example.com/location-photo.jpg"
+                className="w-full bg-slate-800 border border-slate-600 rounded-lg pl-9 pr-4 py-2 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+            </div>
+            <Button type="submit" variant="secondary" disabled={!url.trim() || isLoading} className="px-4 py-2">
+              Import
+            </Button>
+          </form>
+
+          <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="relative rounded-lg overflow-hidden border border-slate-600 bg-slate-900">
+            <img src={toDataUrl(chosen ?? original)} alt="Background" className="w-full max-h-[400px] object-contain" />
+            <button onClick={handleClear} className="absolute top-2 right-2 p-1.5 rounded bg-black/70 text-slate-300 hover:text-white" title="Choose a different image">
+              <X size={16} />
+            </button>
+          </div>
+
+          {variations.length > 0 && (
+            <div className="flex gap-2 overflow-x-auto pb-1">
+              {[original, ...variations].map((image, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => setChosen(image)}
+                  className={`shrink-0 w-28 h-20 rounded overflow-hidden border-2 transition-all ${image === chosen ? 'border-blue-500' : 'border-transparent hover:border-slate-500'}`}
+                  title={idx === 0 ? "Original" : VARIATION_CONDITIONS[idx - 1]}
+                >
+                  <img src={toDataUrl(image)} alt={idx === 0 ? "Original" : `Variation ${idx}`} className="w-full h-full object-cover" />
+                </button>
+              ))}
+            </div>
+          )}
+
+          <button
+            onClick={handleGenerateVariations}
+            disabled={isGeneratingVariations}
+            className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Sparkles size={14} /> {isGeneratingVariations ? "Generating variations..." : variations.length > 0 ? "Generate new variations" : "Generate lighting variations (optional)"}
+          </button>
+
+          <div className="flex gap-3">
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Name this location, e.g. 'Our office rooftop'"
+              className="flex-1 bg-slate-800 border border-slate-600 rounded-lg px-4 py-3 text-white focus:ring-2 focus:ring-blue-500 outline-none"
+            />
+            <Button onClick={() => chosen && onUse(name.trim(), chosen)} disabled={!name.trim() || !chosen || isGeneratingVariations}>
+              Use Background <ArrowRight size={18} />
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {isCameraOpen && (
+        <CameraCapture onCapture={handleCameraCapture} onCancel={() => setIsCameraOpen(false)} />
+      )}
+    </Card>
+  );
+};
+
+export default BackgroundImport;
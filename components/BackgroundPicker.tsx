@@ -0,0 +1,168 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { generateLocationImage } from '../services/geminiService';
+import { classifyError } from '../services/aiErrors';
+import { DEFAULT_BACKGROUND_OPTIONS, STYLE_PRESETS, TIME_OF_DAY_PRESETS, WEATHER_PRESETS, SEASON_PRESETS } from '../services/backgroundPresets';
+import Button from './ui/Button';
+import Card from './ui/Card';
+import ModelRefusal from './ModelRefusal';
+import { BackgroundOptions, ImageAsset, ImageRefusal } from '../types';
+import { toDataUrl } from '../utils';
+import { RefreshCw, ArrowRight, AlertTriangle, Check, Sparkles, ShieldAlert, MessageSquareText } from 'lucide-react';
+
+interface BackgroundPickerProps {
+  locationName: string; // Shown in the title
+  description: string; // What the model is asked to draw; may include the address
+  onDescriptionChange: (description: string) => void; // When the user takes a suggested rewrite after a refusal
+  onUse: (image: ImageAsset) => void;
+  onCancel: () => void;
+}
+
+interface CandidateSlot {
+  variation: number; // Also identifies the request currently filling this slot
+  status: 'loading' | 'done' | 'refused' | 'error';
+  image?: ImageAsset;
+  refusal?: ImageRefusal; // Why the model returned no image
+  error?: string;
+}
+
+const CANDIDATE_COUNTS = [1, 2, 4, 6];
+
+const BackgroundPicker: React.FC<BackgroundPickerProps> = ({ locationName, description, onDescriptionChange, onUse, onCancel }) => {
+  const [options, setOptions] = useState<BackgroundOptions>(DEFAULT_BACKGROUND_OPTIONS);
+  const [count, setCount] = useState(4);
+  const [slots, setSlots] = useState<CandidateSlot[]>([]);
+  const [selectedIdx, setSelectedIdx] = useState<number | null>(null);
+  const nextVariationRef = useRef(0);
+
+  const fillSlot = async (idx: number, variation: number, slotOptions: BackgroundOptions) => {
+    try {
+      const result = await generateLocationImage(description, slotOptions, variation);
+      const filled: Partial<CandidateSlot> = result.kind === 'image'
+        ? { status: 'done', image: result.image }
+        : { status: 'refused', refusal: result };
+      // A newer request may have taken over this slot in the meantime
+      setSlots(current => current.map((s, i) => i === idx && s.variation === variation ? { ...s, ...filled } : s));
+    } catch (error) {
+      console.error(error);
+      const message = classifyError(error).message;
+      setSlots(current => current.map((s, i) => i === idx && s.variation === variation ? { ...s, status: 'error', error: message } : s));
+    }
+  };
+
+  const generateAll = () => {
+    const next = Array.from({ length: count }, (): CandidateSlot => ({ variation: nextVariationRef.current++, status: 'loading' }));
+    setSlots(next);
+    setSelectedIdx(null);
+    next.forEach((slot, idx) => fillSlot(idx, slot.variation, options));
+  };
+
+  const regenerateSlot = (idx: number) => {
+    const variation = nextVariationRef.current++;
+    setSlots(current => current.map((s, i) => i === idx ? { variation, status: 'loading' } : s));
+    if (selectedIdx === idx) setSelectedIdx(null);
+    fillSlot(idx, variation, options);
+  };
+
+  // Started a tick late and cancelled in cleanup, so StrictMode's mount-unmount-mount (or a quick
+  // description change) doesn't pay for a batch nobody sees. Results for replaced slots are
+  // dropped by the variation check in fillSlot.
+  useEffect(() => {
+    const timer = setTimeout(generateAll, 0);
+    return () => clearTimeout(timer);
+  }, [description]);
+
+  const selected = selectedIdx !== null ? slots[selectedIdx] : null;
+  const isGenerating = slots.some(s => s.status === 'loading');
+  // Every candidate shares the prompt, so one explanation covers them all
+  const refusal = slots.find(s => s.refusal)?.refusal;
+
+  const renderSelect = <T extends string>(label: string, value: T, presets: { value: T; label: string }[], onChange: (value: T) => void) => (
+    <label className="flex flex-col gap-1 text-xs text-slate-400">
+      {label}
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value as T)}
+        className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+      >
+        {presets.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <Card title={`Pick a Setting for ${locationName}`}>
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-4">
+        {renderSelect('Style', options.style, STYLE_PRESETS, style => setOptions(o => ({ ...o, style })))}
+        {renderSelect('Time of day', options.timeOfDay, TIME_OF_DAY_PRESETS, timeOfDay => setOptions(o => ({ ...o, timeOfDay })))}
+        {renderSelect('Weather', options.weather, WEATHER_PRESETS, weather => setOptions(o => ({ ...o, weather })))}
+        {renderSelect('Season', options.season, SEASON_PRESETS, season => setOptions(o => ({ ...o, season })))}
+        {renderSelect('Candidates', String(count), CANDIDATE_COUNTS.map(n => ({ value: String(n), label: String(n) })), value => setCount(parseInt(value, 10)))}
+      </div>
+
+      <button
+        onClick={generateAll}
+        className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1 mb-4"
+      >
+        <Sparkles size={14} /> Generate with these settings
+      </button>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+        {slots.map((slot, idx) => (
+          <div
+            key={idx}
+            className={`relative aspect-video rounded-lg overflow-hidden border-2 bg-slate-900 group ${selectedIdx === idx ? 'border-blue-500' : 'border-slate-700'}`}
+          >
+            {slot.status === 'done' && slot.image ? (
+              <button onClick={() => setSelectedIdx(idx)} className="w-full h-full">
+                <img src={toDataUrl(slot.image)} alt={`Candidate ${idx + 1}`} className="w-full h-full object-cover" />
+              </button>
+            ) : slot.status === 'refused' ? (
+              <div className="w-full h-full flex flex-col items-center justify-center text-amber-300 text-xs gap-1">
+                {slot.refusal?.kind === 'blocked' ? <><ShieldAlert size={20} /> Blocked</> : <><MessageSquareText size={20} /> No image</>}
+              </div>
+            ) : slot.status === 'error' ? (
+              <div className="w-full h-full flex flex-col items-center justify-center text-red-300 text-xs gap-1" title={slot.error}>
+                <AlertTriangle size={20} /> Failed
+              </div>
+            ) : (
+              <div className="w-full h-full flex items-center justify-center text-blue-300 text-xs animate-pulse">
+                Generating...
+              </div>
+            )}
+            {selectedIdx === idx && (
+              <span className="absolute top-2 left-2 bg-blue-600 text-white rounded-full p-1 pointer-events-none">
+                <Check size={12} />
+              </span>
+            )}
+            {slot.status !== 'loading' && (
+              <button
+                onClick={() => regenerateSlot(idx)}
+                className="absolute top-2 right-2 p-1.5 rounded bg-black/70 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                title="Regenerate this one"
+              >
+                <RefreshCw size={14} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {refusal && (
+        <div className="mt-4">
+          <ModelRefusal refusal={refusal} prompt={description} onUseSuggestion={onDescriptionChange} />
+        </div>
+      )}
+
+      <div className="flex items-center justify-between mt-6">
+        <button onClick={onCancel} className="text-slate-400 hover:text-white transition-colors">
+          &larr; Choose another place
+        </button>
+        <Button onClick={() => selected?.image && onUse(selected.image)} disabled={!selected?.image}>
+          {isGenerating && !selected ? "Generating..." : "Use This Setting"} <ArrowRight size={18} />
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export default BackgroundPicker;
@@ -0,0 +1,390 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { searchLocations } from '../services/geminiService';
+import { runBatch, createBatchItems, parseLocationList, BatchItem, BatchSubject } from '../services/batchRunner';
+import { showErrorToast } from '../services/notifications';
+import Button from './ui/Button';
+import Card from './ui/Card';
+import { VideoAspectRatio } from '../types';
+import { normalizeImageFile, toDataUrl, createZip, downloadBlob, downloadImageAsset, getExtensionForMimeType, imageAssetToBlob, slugify } from '../utils';
+import { Layers, Upload, Search, FileText, Play, XCircle, RotateCcw, Download, Archive, ExternalLink, Trash2, AlertTriangle, CheckCircle2, Video } from 'lucide-react';
+
+interface BatchRunnerProps {
+  onOpenItem: (item: BatchItem) => void;
+  onClose: () => void;
+}
+
+const STAGE_LABELS: Record<NonNullable<BatchItem['stage']>, string> = {
+  background: 'Generating setting',
+  merge: 'Merging',
+  refine: 'Refining',
+  video: 'Animating',
+};
+
+// Owns the object URL for one result video so it is released with the card
+const BatchVideo: React.FC<{ blob: Blob }> = ({ blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url ? <video src={url} className="w-full h-full object-cover" muted loop autoPlay playsInline /> : null;
+};
+
+const itemFileName = (item: BatchItem) => `${slugify(item.location.name) || 'location'}-${slugify(item.subject.name) || 'subject'}`;
+
+const BatchRunner: React.FC<BatchRunnerProps> = ({ onOpenItem, onClose }) => {
+  // Inputs
+  const [locationText, setLocationText] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [subjects, setSubjects] = useState<BatchSubject[]>([]);
+  const subjectInputRef = useRef<HTMLInputElement>(null);
+  const csvInputRef = useRef<HTMLInputElement>(null);
+
+  // Settings
+  const [concurrency, setConcurrency] = useState(2);
+  const [maxRetries, setMaxRetries] = useState(2);
+  const [refinePrompt, setRefinePrompt] = useState('');
+  const [withVideo, setWithVideo] = useState(false);
+  const [videoPrompt, setVideoPrompt] = useState('');
+  const [aspectRatio, setAspectRatio] = useState<VideoAspectRatio>('16:9');
+
+  // Run
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [isZipping, setIsZipping] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // The app keeps this mounted while batch mode is hidden, so this only runs if the app itself unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const locations = parseLocationList(locationText);
+  const doneCount = items.filter(i => i.status === 'done').length;
+  const failedCount = items.filter(i => i.status === 'failed' || i.status === 'cancelled').length;
+
+  // --- Inputs ---
+  const appendLocations = (lines: string[]) => {
+    setLocationText(text => [text.trim(), ...lines].filter(Boolean).join('\n'));
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!searchQuery.trim()) return;
+    setIsSearching(true);
+    try {
+      const { locations: found } = await searchLocations(searchQuery);
+      // Quote the address so its commas stay in one CSV cell
+      appendLocations(found.map(place => place.address ? `${place.title},"${place.address.replace(/"/g, '""')}"` : place.title));
+      setSearchQuery('');
+    } catch (error) {
+      showErrorToast("Location search failed", error);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const handleCsvChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    appendLocations([await file.text()]);
+  };
+
+  const handleSubjectsChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      const images = await Promise.all(files.map(normalizeImageFile));
+      setSubjects(current => [...current, ...images.map((image, i) => ({
+        image,
+        name: files[i].name.replace(/\.[^.]+$/, '') || `Subject ${current.length + i + 1}`,
+      }))]);
+    } catch (error) {
+      showErrorToast("Could not read a subject photo", error);
+    }
+  };
+
+  // --- Run ---
+  const run = async (toRun: BatchItem[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    try {
+      await runBatch(toRun, {
+        concurrency,
+        maxRetries,
+        withVideo,
+        refinePrompt: refinePrompt.trim() || undefined,
+        videoPrompt: videoPrompt.trim() || undefined,
+        aspectRatio,
+        signal: controller.signal,
+        onItemUpdate: (updated) => setItems(current => current.map(i => i.id === updated.id ? updated : i)),
+      });
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStart = () => {
+    const next = createBatchItems(locations, subjects);
+    setItems(next);
+    run(next.map(item => ({ ...item })));
+  };
+
+  // Failed items start over from the stage they stopped at, with a fresh retry budget
+  const retryItems = (toRetry: BatchItem[]) => {
+    if (toRetry.length === 0) return;
+    const reset = toRetry.map(item => ({ ...item, status: 'queued' as const, attempts: 0, error: undefined }));
+    setItems(current => current.map(i => reset.find(r => r.id === i.id) ?? i));
+    run(reset.map(item => ({ ...item })));
+  };
+
+  const handleExportZip = async () => {
+    setIsZipping(true);
+    try {
+      const finished = items.filter(i => i.composite);
+      const files = finished.flatMap(item => {
+        const name = itemFileName(item);
+        const entries = [{ name: `${name}.${getExtensionForMimeType(item.composite!.mimeType)}`, data: imageAssetToBlob(item.composite!) }];
+        if (item.video) entries.push({ name: `${name}.${getExtensionForMimeType(item.video.type)}`, data: item.video });
+        return entries;
+      });
+      const manifest = [
+        'location,subject,status,attempts,error',
+        ...items.map(i => [i.location.name, i.subject.name, i.status, i.attempts, i.error || ''].map(v => `"${String(v).replace(/"/g, '""')}"`).join(',')),
+      ].join('\n');
+      files.push({ name: 'manifest.csv', data: new Blob([manifest], { type: 'text/csv' }) });
+      downloadBlob(await createZip(files), `robo-ai-batch-${Date.now()}.zip`);
+    } catch (error) {
+      showErrorToast("Failed to build the ZIP file", error, handleExportZip);
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const renderStatus = (item: BatchItem) => {
+    switch (item.status) {
+      case 'done':
+        return <span className="text-green-400 flex items-center gap-1"><CheckCircle2 size={12} /> Done</span>;
+      case 'running':
+        return <span className="text-blue-300 animate-pulse">{item.stage ? STAGE_LABELS[item.stage] : 'Starting'}...</span>;
+      case 'failed':
+        return <span className="text-red-400 flex items-center gap-1"><AlertTriangle size={12} /> Failed</span>;
+      case 'cancelled':
+        return <span className="text-slate-400">Cancelled</span>;
+      default:
+        return <span className="text-slate-400">{item.attempts > 0 ? `Retrying (attempt ${item.attempts + 1})` : 'Queued'}</span>;
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto space-y-8">
+      <div className="flex items-center justify-between">
+        <button onClick={onClose} className="text-slate-400 hover:text-white flex items-center gap-2 transition-colors">
+          &larr; Back
+        </button>
+      </div>
+
+      <Card title="Batch Mode">
+        <div className="grid gap-6 lg:grid-cols-2">
+          {/* Locations */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold text-slate-300 uppercase">Locations ({locations.length})</h3>
+              <button onClick={() => csvInputRef.current?.click()} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1">
+                <FileText size={12} /> Import CSV
+              </button>
+            </div>
+            <form onSubmit={handleSearch} className="flex gap-2">
+              <input
+                type="text"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                placeholder="Search and add places, e.g. 'Beaches in Portugal'"
+                className="flex-1 bg-slate-800 border border-slate-600 rounded-lg px-3 py-2 text-sm text-white focus:ring-2 focus:ring-blue-500 outline-none"
+              />
+              <Button type="submit" variant="secondary" isLoading={isSearching} className="px-3 py-2 text-sm">
+                <Search size={16} /> Add
+              </Button>
+            </form>
+            <textarea
+              value={locationText}
+              onChange={(e) => setLocationText(e.target.value)}
+              placeholder={"One per line, or CSV with name,address:\nShibuya Crossing\nPiazza Navona,\"Piazza Navona, Roma\""}
+              className="w-full bg-slate-800 border border-slate-600 rounded-lg p-3 text-sm text-white font-mono focus:ring-2 focus:ring-blue-500 outline-none h-40 resize-y placeholder:text-slate-500"
+            />
+            <input ref={csvInputRef} type="file" accept=".csv,text/csv,text/plain" onChange={handleCsvChange} className="hidden" />
+          </div>
+
+          {/* Subjects */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h3 className="text-sm font-bold text-slate-300 uppercase">Subjects ({subjects.length})</h3>
+              <button onClick={() => subjectInputRef.current?.click()} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1">
+                <Upload size={12} /> Add Photos
+              </button>
+            </div>
+            {subjects.length === 0 ? (
+              <button
+                onClick={() => subjectInputRef.current?.click()}
+                className="w-full h-40 rounded-lg border-2 border-dashed border-slate-600 text-slate-500 hover:text-slate-300 hover:border-slate-500 flex flex-col items-center justify-center gap-2"
+              >
+                <Upload size={24} /> Upload subject photos
+              </button>
+            ) : (
+              <div className="grid grid-cols-4 gap-2">
+                {subjects.map((subject, idx) => (
+                  <div key={idx} className="relative group">
+                    <img src={toDataUrl(subject.image)} alt={subject.name} className="w-full aspect-square object-cover rounded" />
+                    <button
+                      onClick={() => setSubjects(current => current.filter((_, i) => i !== idx))}
+                      className="absolute top-1 right-1 p-1 rounded bg-black/70 text-slate-300 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                      title="Remove"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                    <p className="text-[10px] text-slate-400 truncate mt-0.5">{subject.name}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+            <input ref={subjectInputRef} type="file" accept="image/*" multiple onChange={handleSubjectsChange} className="hidden" />
+          </div>
+        </div>
+
+        {/* Settings */}
+        <div className="mt-6 pt-6 border-t border-slate-700 grid gap-4 md:grid-cols-2">
+          <div className="flex gap-4">
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Parallel jobs
+              <select value={concurrency} onChange={(e) => setConcurrency(parseInt(e.target.value, 10))} disabled={isRunning} className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white">
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Retries per item
+              <select value={maxRetries} onChange={(e) => setMaxRetries(parseInt(e.target.value, 10))} disabled={isRunning} className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white">
+                {[0, 1, 2, 3].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-400 flex-1">
+              Refine instructions (optional)
+              <input
+                type="text"
+                value={refinePrompt}
+                onChange={(e) => setRefinePrompt(e.target.value)}
+                disabled={isRunning}
+                placeholder="e.g. 'Soft evening light'"
+                className="bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </label>
+          </div>
+          <div className="flex gap-4 items-end">
+            <label className="flex items-center gap-2 text-sm text-slate-300 pb-2">
+              <input type="checkbox" checked={withVideo} onChange={(e) => setWithVideo(e.target.checked)} disabled={isRunning} className="accent-purple-500" />
+              <Video size={14} /> Animate with Veo
+            </label>
+            {withVideo && (
+              <>
+                <input
+                  type="text"
+                  value={videoPrompt}
+                  onChange={(e) => setVideoPrompt(e.target.value)}
+                  disabled={isRunning}
+                  placeholder="Motion prompt (optional)"
+                  className="flex-1 bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm text-white outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <select value={aspectRatio} onChange={(e) => setAspectRatio(e.target.value as VideoAspectRatio)} disabled={isRunning} className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white">
+                  <option value="16:9">16:9</option>
+                  <option value="9:16">9:16</option>
+                </select>
+              </>
+            )}
+          </div>
+        </div>
+
+        <div className="mt-6 flex flex-wrap items-center gap-3">
+          {isRunning ? (
+            <Button onClick={() => abortRef.current?.abort()} variant="danger">
+              <XCircle size={18} /> Cancel Batch
+            </Button>
+          ) : (
+            <Button onClick={handleStart} disabled={locations.length === 0 || subjects.length === 0}>
+              <Play size={18} /> Run {locations.length * subjects.length || ''} {locations.length * subjects.length === 1 ? 'Item' : 'Items'}
+            </Button>
+          )}
+          {withVideo && !isRunning && locations.length * subjects.length > 0 && (
+            <p className="text-xs text-amber-300">Each item also starts a Veo generation, which is billed separately.</p>
+          )}
+        </div>
+      </Card>
+
+      {items.length > 0 && (
+        <Card title="Results">
+          <div className="flex flex-wrap items-center gap-3 mb-4">
+            <span className="text-sm text-slate-400 flex items-center gap-2">
+              <Layers size={16} /> {doneCount} of {items.length} done{failedCount > 0 && `, ${failedCount} failed`}
+            </span>
+            <div className="flex gap-2 ml-auto">
+              {failedCount > 0 && !isRunning && (
+                <Button onClick={() => retryItems(items.filter(i => i.status === 'failed' || i.status === 'cancelled'))} variant="secondary" className="px-3 py-2 text-sm">
+                  <RotateCcw size={16} /> Retry Failed
+                </Button>
+              )}
+              <Button onClick={handleExportZip} disabled={doneCount === 0 || isZipping} isLoading={isZipping} className="px-3 py-2 text-sm">
+                <Archive size={16} /> Download ZIP
+              </Button>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {items.map(item => {
+              const preview = item.composite ?? item.merged ?? item.background;
+              return (
+                <div key={item.id} className="bg-slate-800/60 rounded-lg border border-slate-700 overflow-hidden flex flex-col">
+                  <div className="aspect-video bg-slate-900 flex items-center justify-center overflow-hidden">
+                    {item.video ? (
+                      <BatchVideo blob={item.video} />
+                    ) : preview ? (
+                      <img src={toDataUrl(preview)} alt={item.location.name} className={`w-full h-full object-cover ${item.composite ? '' : 'opacity-50'}`} />
+                    ) : (
+                      <Layers className="text-slate-600" size={32} />
+                    )}
+                  </div>
+                  <div className="p-3 flex-1 flex flex-col gap-1 text-xs">
+                    <p className="font-bold text-sm text-white truncate">{item.location.name}</p>
+                    <p className="text-slate-400 truncate">{item.subject.name}</p>
+                    {renderStatus(item)}
+                    {item.error && <p className="text-red-300 line-clamp-2" title={item.error}>{item.error}</p>}
+                    <div className="flex gap-2 mt-auto pt-2">
+                      {item.composite && (
+                        <>
+                          <button onClick={() => onOpenItem(item)} className="text-blue-400 hover:text-blue-300 flex items-center gap-1">
+                            <ExternalLink size={12} /> Open in Editor
+                          </button>
+                          <button onClick={() => downloadImageAsset(item.composite!, itemFileName(item))} className="text-slate-300 hover:text-white flex items-center gap-1 ml-auto" title="Download">
+                            <Download size={12} />
+                          </button>
+                        </>
+                      )}
+                      {(item.status === 'failed' || item.status === 'cancelled') && !isRunning && (
+                        <button onClick={() => retryItems([item])} className="text-blue-400 hover:text-blue-300 flex items-center gap-1">
+                          <RotateCcw size={12} /> Retry
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default BatchRunner;
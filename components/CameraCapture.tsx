@@ -0,0 +1,188 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ImageAsset } from '../types';
+import Button from './ui/Button';
+import { dataUrlToImageAsset, toDataUrl } from '../utils';
+import { Camera, Timer, FlipHorizontal2, RotateCcw, Check, X } from 'lucide-react';
+
+interface CameraCaptureProps {
+  onCapture: (asset: ImageAsset) => void;
+  onCancel: () => void;
+}
+
+const COUNTDOWN_OPTIONS = [0, 3, 5, 10];
+
+const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const [error, setError] = useState<string | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [isMirrored, setIsMirrored] = useState(true);
+  const [countdownSeconds, setCountdownSeconds] = useState(3);
+  const [countdown, setCountdown] = useState<number | null>(null);
+  const [capturedImage, setCapturedImage] = useState<ImageAsset | null>(null);
+
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const timerRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices?.getUserMedia) {
+      setError("This browser does not support camera capture.");
+      return;
+    }
+
+    let cancelled = false;
+    navigator.mediaDevices.getUserMedia({ video: { facingMode: 'user', width: { ideal: 1920 }, height: { ideal: 1080 } }, audio: false })
+      .then(stream => {
+        if (cancelled) {
+          stream.getTracks().forEach(track => track.stop());
+          return;
+        }
+        streamRef.current = stream;
+        if (videoRef.current) {
+          videoRef.current.srcObject = stream;
+          videoRef.current.play().catch(console.error);
+        }
+        setIsStreaming(true);
+      })
+      .catch(err => {
+        console.error(err);
+        setError(err?.name === 'NotAllowedError'
+          ? "Camera access was denied. Allow camera access in your browser to take a photo."
+          : "No camera is available on this device.");
+      });
+
+    return () => {
+      cancelled = true;
+      if (timerRef.current) window.clearInterval(timerRef.current);
+      streamRef.current?.getTracks().forEach(track => track.stop());
+    };
+  }, []);
+
+  const takePhoto = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Bake the mirroring in so the photo matches what the user saw
+    if (isMirrored) {
+      ctx.translate(canvas.width, 0);
+      ctx.scale(-1, 1);
+    }
+    ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+    setCapturedImage(dataUrlToImageAsset(canvas.toDataURL('image/jpeg', 0.92)));
+  };
+
+  const handleShutter = () => {
+    if (countdownSeconds === 0) {
+      takePhoto();
+      return;
+    }
+    let remaining = countdownSeconds;
+    setCountdown(remaining);
+    timerRef.current = window.setInterval(() => {
+      remaining -= 1;
+      if (remaining > 0) {
+        setCountdown(remaining);
+        return;
+      }
+      if (timerRef.current) window.clearInterval(timerRef.current);
+      timerRef.current = null;
+      setCountdown(null);
+      takePhoto();
+    }, 1000);
+  };
+
+  const handleUsePhoto = () => {
+    if (!capturedImage) return;
+    onCapture(capturedImage);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="glass-panel rounded-xl p-6 w-full max-w-3xl flex flex-col gap-4 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><Camera size={20} /> Take a Photo</h2>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="relative aspect-video bg-black rounded-lg overflow-hidden border border-slate-700 flex items-center justify-center">
+          {error ? (
+            <p className="text-red-300 text-center px-8">{error}</p>
+          ) : (
+            <>
+              <video
+                ref={videoRef}
+                muted
+                playsInline
+                className={`w-full h-full object-contain ${capturedImage ? 'hidden' : ''}`}
+                style={{ transform: isMirrored ? 'scaleX(-1)' : undefined }}
+              />
+              {capturedImage && (
+                <img src={toDataUrl(capturedImage)} alt="Captured" className="w-full h-full object-contain" />
+              )}
+              {!isStreaming && (
+                <p className="absolute text-slate-400 animate-pulse">Starting camera...</p>
+              )}
+              {countdown !== null && (
+                <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                  <span className="text-8xl font-bold text-white drop-shadow-[0_0_20px_rgba(0,0,0,0.8)]">{countdown}</span>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          {!capturedImage && (
+            <>
+              <button
+                onClick={() => setIsMirrored(m => !m)}
+                className={`px-3 py-2 rounded border text-sm flex items-center gap-1 ${isMirrored ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+              >
+                <FlipHorizontal2 size={14} /> Mirror
+              </button>
+              <label className="flex items-center gap-2 text-sm text-slate-400">
+                <Timer size={14} /> Timer
+                <select
+                  value={countdownSeconds}
+                  onChange={(e) => setCountdownSeconds(parseInt(e.target.value, 10))}
+                  disabled={countdown !== null}
+                  className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-white"
+                >
+                  {COUNTDOWN_OPTIONS.map(seconds => (
+                    <option key={seconds} value={seconds}>{seconds === 0 ? 'Off' : `${seconds}s`}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+
+          <div className="flex gap-2 ml-auto">
+            {capturedImage ? (
+              <>
+                <Button onClick={() => setCapturedImage(null)} variant="secondary" className="px-4 py-2">
+                  <RotateCcw size={16} /> Retake
+                </Button>
+                <Button onClick={handleUsePhoto} className="px-4 py-2">
+                  <Check size={16} /> Use Photo
+                </Button>
+              </>
+            ) : (
+              <Button onClick={handleShutter} disabled={!isStreaming || countdown !== null} className="px-4 py-2">
+                <Camera size={16} /> {countdown !== null ? 'Get ready...' : 'Capture'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CameraCapture;
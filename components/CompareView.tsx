@@ -0,0 +1,70 @@
+import React, { useState, useRef } from 'react';
+import { ImageAsset } from '../types';
+import { toDataUrl } from '../utils';
+
+export type CompareMode = 'side-by-side' | 'slider';
+
+interface CompareViewProps {
+  before: ImageAsset;
+  after: ImageAsset;
+  beforeLabel: string;
+  afterLabel: string;
+  mode: CompareMode;
+}
+
+const Label: React.FC<{ text: string; className?: string }> = ({ text, className = '' }) => (
+  <span className={`absolute top-2 bg-black/70 text-white text-xs font-bold px-2 py-1 rounded pointer-events-none ${className}`}>
+    {text}
+  </span>
+);
+
+const CompareView: React.FC<CompareViewProps> = ({ before, after, beforeLabel, afterLabel, mode }) => {
+  const [split, setSplit] = useState(0.5); // 0-1, share of the width showing "before"
+  const [isDragging, setIsDragging] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const updateSplit = (clientX: number) => {
+    if (!containerRef.current) return;
+    const rect = containerRef.current.getBoundingClientRect();
+    setSplit(Math.max(0, Math.min(1, (clientX - rect.left) / rect.width)));
+  };
+
+  if (mode === 'side-by-side') {
+    return (
+      <div className="w-full h-full grid grid-cols-2 gap-1">
+        {[{ image: before, label: beforeLabel }, { image: after, label: afterLabel }].map(({ image, label }) => (
+          <div key={label} className="relative flex items-center justify-center bg-black/30">
+            <img src={toDataUrl(image)} alt={label} className="max-w-full max-h-full object-contain select-none" draggable={false} />
+            <Label text={label} className="left-2" />
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  // Slider: both versions stacked, "before" revealed left of the handle
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full h-full flex items-center justify-center cursor-ew-resize select-none"
+      onMouseDown={(e) => { setIsDragging(true); updateSplit(e.clientX); }}
+      onMouseMove={(e) => isDragging && updateSplit(e.clientX)}
+      onMouseUp={() => setIsDragging(false)}
+      onMouseLeave={() => setIsDragging(false)}
+    >
+      <img src={toDataUrl(after)} alt={afterLabel} className="max-w-full max-h-full object-contain" draggable={false} />
+      <img
+        src={toDataUrl(before)}
+        alt={beforeLabel}
+        className="absolute inset-0 w-full h-full object-contain"
+        style={{ clipPath: `inset(0 ${(1 - split) * 100}% 0 0)` }}
+        draggable={false}
+      />
+      <div className="absolute top-0 bottom-0 w-0.5 bg-white shadow-[0_0_8px_rgba(0,0,0,0.8)] pointer-events-none" style={{ left: `${split * 100}%` }} />
+      <Label text={beforeLabel} className="left-2" />
+      <Label text={afterLabel} className="right-2" />
+    </div>
+  );
+};
+
+export default CompareView;
@@ -0,0 +1,223 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { generateSubjectMask } from '../services/geminiService';
+import { showErrorToast } from '../services/notifications';
+import { ImageAsset } from '../types';
+import { dataUrlToImageAsset, loadImageAsset, luminanceToAlpha } from '../utils';
+import Button from './ui/Button';
+import { Scissors, Eraser, Paintbrush, Sparkles, Check, X } from 'lucide-react';
+
+interface CutoutEditorProps {
+  image: ImageAsset; // The original upload
+  mask?: ImageAsset; // PNG from a previous session (alpha = keep)
+  onApply: (cutout: ImageAsset, mask: ImageAsset) => void;
+  onCancel: () => void;
+}
+
+type BrushMode = 'keep' | 'erase';
+
+const CutoutEditor: React.FC<CutoutEditorProps> = ({ image, mask, onApply, onCancel }) => {
+  const [brushMode, setBrushMode] = useState<BrushMode>('erase');
+  const [brushSize, setBrushSize] = useState(40); // In image pixels
+  const [isDetecting, setIsDetecting] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+  const [isPainting, setIsPainting] = useState(false);
+
+  const previewRef = useRef<HTMLCanvasElement>(null);
+  const maskCanvasRef = useRef<HTMLCanvasElement>(document.createElement('canvas'));
+  const sourceRef = useRef<HTMLImageElement | null>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+
+  const renderPreview = () => {
+    const preview = previewRef.current;
+    const source = sourceRef.current;
+    const ctx = preview?.getContext('2d');
+    if (!preview || !source || !ctx) return;
+    ctx.clearRect(0, 0, preview.width, preview.height);
+    ctx.globalCompositeOperation = 'source-over';
+    ctx.drawImage(source, 0, 0);
+    ctx.globalCompositeOperation = 'destination-in';
+    ctx.drawImage(maskCanvasRef.current, 0, 0);
+    ctx.globalCompositeOperation = 'source-over';
+  };
+
+  const loadMask = async (maskAsset: ImageAsset, isAlpha: boolean) => {
+    const maskCanvas = maskCanvasRef.current;
+    const ctx = maskCanvas.getContext('2d');
+    if (!ctx) return;
+    const maskImg = await loadImageAsset(maskAsset);
+    ctx.clearRect(0, 0, maskCanvas.width, maskCanvas.height);
+    // Model output is not always the same size as the input, so stretch it back onto the original
+    ctx.drawImage(maskImg, 0, 0, maskCanvas.width, maskCanvas.height);
+    if (!isAlpha) luminanceToAlpha(ctx, maskCanvas.width, maskCanvas.height);
+    renderPreview();
+  };
+
+  const handleAutoDetect = async () => {
+    setIsDetecting(true);
+    try {
+      const modelMask = await generateSubjectMask(image);
+      await loadMask(modelMask, false);
+    } catch (error) {
+      showErrorToast("Automatic background removal failed. You can still paint the mask by hand", error, handleAutoDetect);
+    } finally {
+      setIsDetecting(false);
+    }
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImageAsset(image).then(async (img) => {
+      if (cancelled || !previewRef.current) return;
+      sourceRef.current = img;
+      previewRef.current.width = img.width;
+      previewRef.current.height = img.height;
+      maskCanvasRef.current.width = img.width;
+      maskCanvasRef.current.height = img.height;
+
+      // Start fully kept until a mask arrives
+      const ctx = maskCanvasRef.current.getContext('2d');
+      ctx?.fillRect(0, 0, img.width, img.height);
+      renderPreview();
+      setIsReady(true);
+
+      if (mask) {
+        await loadMask(mask, true);
+      } else {
+        await handleAutoDetect();
+      }
+    }).catch(error => {
+      showErrorToast("Could not load image", error);
+    });
+    return () => { cancelled = true; };
+  }, [image]);
+
+  // --- Brush ---
+  const toImagePoint = (e: React.MouseEvent) => {
+    const preview = previewRef.current!;
+    const rect = preview.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * preview.width,
+      y: ((e.clientY - rect.top) / rect.height) * preview.height,
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const ctx = maskCanvasRef.current.getContext('2d');
+    if (!ctx) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = brushMode === 'keep' ? 'source-over' : 'destination-out';
+    ctx.strokeStyle = '#ffffff';
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+    lastPointRef.current = point;
+    renderPreview();
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    if (!isReady || isDetecting) return;
+    setIsPainting(true);
+    lastPointRef.current = null;
+    paintTo(toImagePoint(e));
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (isPainting) paintTo(toImagePoint(e));
+  };
+
+  const stopPainting = () => {
+    setIsPainting(false);
+    lastPointRef.current = null;
+  };
+
+  const handleApply = () => {
+    if (!previewRef.current) return;
+    // Always PNG: the cutout needs its alpha channel whatever the upload was
+    const cutout = dataUrlToImageAsset(previewRef.current.toDataURL('image/png'));
+    const maskData = dataUrlToImageAsset(maskCanvasRef.current.toDataURL('image/png'));
+    onApply(cutout, maskData);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="glass-panel rounded-xl p-6 w-full max-w-4xl max-h-full flex flex-col gap-4 shadow-2xl">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><Scissors size={20} /> Remove Background</h2>
+          <button onClick={onCancel} className="text-slate-400 hover:text-white" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Checkerboard shows what will be transparent */}
+        <div
+          className="relative flex-1 min-h-0 flex items-center justify-center rounded-lg border border-slate-700 overflow-hidden"
+          style={{ backgroundImage: 'repeating-conic-gradient(#334155 0% 25%, #1e293b 0% 50%)', backgroundSize: '24px 24px' }}
+        >
+          <canvas
+            ref={previewRef}
+            className={`max-w-full max-h-[60vh] object-contain ${brushMode === 'keep' ? 'cursor-cell' : 'cursor-crosshair'}`}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={stopPainting}
+            onMouseLeave={stopPainting}
+          />
+          {isDetecting && (
+            <div className="absolute inset-0 flex items-center justify-center bg-black/50 text-blue-300 animate-pulse">
+              Detecting subject...
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex gap-2">
+            <button
+              onClick={() => setBrushMode('keep')}
+              className={`px-3 py-2 rounded border text-sm flex items-center gap-1 ${brushMode === 'keep' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+            >
+              <Paintbrush size={14} /> Keep
+            </button>
+            <button
+              onClick={() => setBrushMode('erase')}
+              className={`px-3 py-2 rounded border text-sm flex items-center gap-1 ${brushMode === 'erase' ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-400'}`}
+            >
+              <Eraser size={14} /> Erase
+            </button>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-400">
+            Brush
+            <input
+              type="range"
+              min="5"
+              max="200"
+              value={brushSize}
+              onChange={(e) => setBrushSize(parseInt(e.target.value, 10))}
+              className="w-32 h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
+            />
+          </label>
+
+          <button
+            onClick={handleAutoDetect}
+            disabled={!isReady || isDetecting}
+            className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1 disabled:opacity-50"
+          >
+            <Sparkles size={14} /> Auto-detect again
+          </button>
+
+          <div className="flex gap-2 ml-auto">
+            <Button onClick={onCancel} variant="secondary" className="px-4 py-2">Cancel</Button>
+            <Button onClick={handleApply} disabled={!isReady || isDetecting} className="px-4 py-2">
+              <Check size={16} /> Use Cutout
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CutoutEditor;
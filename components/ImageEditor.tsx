@@ -1,29 +1,72 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { editImage } from '../services/geminiService';
+import { editImage, editImageRegion } from '../services/geminiService';
+import { showErrorToast } from '../services/notifications';
+import { classifyError } from '../services/aiErrors';
+import { runCompositeStrategy, DEFAULT_COMPOSITE_STRATEGY } from '../services/compositeStrategies';
+import { describeSubjects } from '../services/promptPresets';
+import ModelRefusal from './ModelRefusal';
+import PromptPresetPicker from './PromptPresetPicker';
+import PromptEnhancer from './PromptEnhancer';
 import Button from './ui/Button';
 import Card from './ui/Card';
-import { fileToBase64, mergeImages, downloadBase64 } from '../utils';
-import { Upload, Wand2, RefreshCw, ArrowRight, Download, ZoomIn, ZoomOut, Move } from 'lucide-react';
+import VersionHistory, { versionLabel } from './VersionHistory';
+import CompareView, { CompareMode } from './CompareView';
+import LayerPanel from './LayerPanel';
+import CutoutEditor from './CutoutEditor';
+import CameraCapture from './CameraCapture';
+import RegionMask, { MaskTool } from './RegionMask';
+import StrategyPicker from './StrategyPicker';
+import StrategyComparison, { StrategyCandidate } from './StrategyComparison';
+import { normalizeImageFile, downloadImageAsset, toDataUrl, LAYER_BASE_WIDTH } from '../utils';
+import { CompositeRecord, CompositeStrategy, EditorSession, ImageAsset, ImageRefusal, SubjectLayer } from '../types';
+import { Upload, Camera, Wand2, RefreshCw, ArrowRight, Download, ZoomIn, ZoomOut, Move, Columns2, SlidersHorizontal, X, Brush, Lasso, Eraser, Trash2 } from 'lucide-react';
+
+// A function is applied to the latest session, for changes that build on it
+export type EditorSessionChange = Partial<EditorSession> | ((session: EditorSession) => Partial<EditorSession>);
 
 interface ImageEditorProps {
   locationName: string;
-  locationImage: string; // Base64
-  onComplete: (finalImage: string) => void;
+  locationImage: ImageAsset;
+  session: EditorSession; // Restored on mount
+  onSessionChange: (changes: EditorSessionChange) => void;
+  onComplete: (finalImage: ImageAsset) => void;
   onBack: () => void;
 }
 
-const ImageEditor: React.FC<ImageEditorProps> = ({ locationName, locationImage, onComplete, onBack }) => {
-  const [userImage, setUserImage] = useState<string | null>(null);
-  const [compositeImage, setCompositeImage] = useState<string | null>(null);
+const createLayer = (image: ImageAsset, name: string, offset: number): SubjectLayer => ({
+  id: crypto.randomUUID(),
+  name,
+  image,
+  // Stagger new subjects so they don't land exactly on top of each other
+  x: Math.min(0.9, 0.5 + offset * 0.08),
+  y: 0.5,
+  scale: 1,
+  rotation: 0,
+  flipX: false,
+  opacity: 1,
+});
+
+const ImageEditor: React.FC<ImageEditorProps> = ({ locationName, locationImage, session, onSessionChange, onComplete, onBack }) => {
+  const [composites, setComposites] = useState<CompositeRecord[]>(session.composites);
+  const [currentId, setCurrentId] = useState<string | null>(session.currentCompositeId ?? session.composites[session.composites.length - 1]?.id ?? null);
   const [prompt, setPrompt] = useState('');
   const [isProcessing, setIsProcessing] = useState(false);
+  const [refusal, setRefusal] = useState<{ refusal: ImageRefusal; prompt: string } | null>(null); // Last request that came back without an image
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Composer State
-  const [fgPos, setFgPos] = useState({ x: 0.5, y: 0.5 }); // Center (0-1)
-  const [fgScale, setFgScale] = useState(1);
+  const [layers, setLayers] = useState<SubjectLayer[]>(session.layers); // Bottom-to-top
+  const [selectedLayerId, setSelectedLayerId] = useState<string | null>(session.layers[session.layers.length - 1]?.id ?? null);
   const [isDragging, setIsDragging] = useState(false);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [cutoutLayerId, setCutoutLayerId] = useState<string | null>(null);
+  const [bgAspect, setBgAspect] = useState(1); // Composer matches the background's shape so the preview maps 1:1 onto mergeImages
   const composerRef = useRef<HTMLDivElement>(null);
+  const hasSubjects = layers.length > 0;
+
+  // Composite Strategy State: picking more than one strategy runs them all for comparison
+  const [strategies, setStrategies] = useState<CompositeStrategy[]>([DEFAULT_COMPOSITE_STRATEGY]);
+  const [candidates, setCandidates] = useState<StrategyCandidate[] | null>(null);
 
   // Result Zoom State
   const [resultZoom, setResultZoom] = useState(1);
@@ -32,58 +75,185 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ locationName, locationImage,
   const resultRef = useRef<HTMLDivElement>(null);
   const panStartRef = useRef({ x: 0, y: 0 });
 
+  // Region Edit State: a mask painted over the result limits the next edit to that area
+  const [isMasking, setIsMasking] = useState(false);
+  const [maskTool, setMaskTool] = useState<MaskTool>('brush');
+  const [maskBrushSize, setMaskBrushSize] = useState(48); // In image pixels
+  const [regionMask, setRegionMask] = useState<ImageAsset | null>(null);
+  const [resultSize, setResultSize] = useState<{ width: number; height: number } | null>(null);
+
+  // Version History State
+  const [redoStack, setRedoStack] = useState<string[]>([]);
+  const [compareId, setCompareId] = useState<string | null>(null);
+  const [compareMode, setCompareMode] = useState<CompareMode>('slider');
+
+  const currentVersion = composites.find(c => c.id === currentId) ?? null;
+  const compositeImage = currentVersion?.image ?? null;
+  const compareVersion = compareId && compareId !== currentId ? composites.find(c => c.id === compareId) ?? null : null;
+
   // If we already have a composite, the prompt is for "Editing" it.
   const isEditingMode = !!compositeImage;
 
-  // --- File Handling ---
+  // A mask belongs to the version it was painted on
+  useEffect(() => {
+    setRegionMask(null);
+  }, [currentId]);
+
+  // --- Layers ---
+  const commitLayers = (next: SubjectLayer[]) => {
+    setLayers(next);
+    onSessionChange({ layers: next });
+  };
+
+  const updateLayer = (id: string, changes: Partial<SubjectLayer>) => {
+    commitLayers(layers.map(l => l.id === id ? { ...l, ...changes } : l));
+  };
+
+  const moveLayer = (id: string, direction: 'up' | 'down') => {
+    const idx = layers.findIndex(l => l.id === id);
+    const target = direction === 'up' ? idx + 1 : idx - 1;
+    if (idx === -1 || target < 0 || target >= layers.length) return;
+    const next = [...layers];
+    [next[idx], next[target]] = [next[target], next[idx]];
+    commitLayers(next);
+  };
+
+  const deleteLayer = (id: string) => {
+    const next = layers.filter(l => l.id !== id);
+    commitLayers(next);
+    if (selectedLayerId === id) setSelectedLayerId(next[next.length - 1]?.id ?? null);
+  };
+
+  const cutoutLayer = layers.find(l => l.id === cutoutLayerId) ?? null;
+
+  // The cutout replaces the layer image; the original and mask are kept so it can be refined later
+  const handleCutoutApplied = (cutout: ImageAsset, mask: ImageAsset) => {
+    if (!cutoutLayer) return;
+    updateLayer(cutoutLayer.id, { image: cutout, originalImage: cutoutLayer.originalImage ?? cutoutLayer.image, mask });
+    setCutoutLayerId(null);
+  };
+
+  // --- Subject Sources ---
+  // Uploads and camera shots both arrive as ImageAssets and become layers the same way
+  const addSubjectLayers = (subjects: { asset: ImageAsset; name: string }[]) => {
+    const added = subjects.map((subject, i) => createLayer(subject.asset, subject.name, layers.length + i));
+    commitLayers([...layers, ...added]);
+    setSelectedLayerId(added[added.length - 1].id);
+  };
+
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files[0]) {
-      try {
-        const base64 = await fileToBase64(e.target.files[0]);
-        setUserImage(base64);
-        // Reset composer
-        setFgPos({ x: 0.5, y: 0.5 });
-        setFgScale(1);
-      } catch (err) {
-        console.error(err);
-        alert("Error reading file");
-      }
+    const files = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same file again
+    if (files.length === 0) return;
+    try {
+      const assets = await Promise.all(files.map(normalizeImageFile));
+      addSubjectLayers(assets.map((asset, i) => ({
+        asset,
+        name: files[i].name.replace(/\.[^.]+$/, '') || `Subject ${layers.length + i + 1}`,
+      })));
+    } catch (err) {
+      showErrorToast("Could not read that photo", err);
     }
   };
 
+  const handleCameraCapture = (asset: ImageAsset) => {
+    setIsCameraOpen(false);
+    addSubjectLayers([{ asset, name: `Camera ${new Date().toLocaleTimeString()}` }]);
+  };
+
   // --- Composer Logic (Drag & Drop) ---
-  const handleComposerMouseDown = (e: React.MouseEvent) => {
-    if (!userImage) return;
+  const handleLayerMouseDown = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    setSelectedLayerId(id);
     setIsDragging(true);
   };
 
   const handleComposerMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || !composerRef.current) return;
+    if (!isDragging || !composerRef.current || !selectedLayerId) return;
     
     const rect = composerRef.current.getBoundingClientRect();
     const x = (e.clientX - rect.left) / rect.width;
     const y = (e.clientY - rect.top) / rect.height;
     
-    setFgPos({ 
-      x: Math.max(0, Math.min(1, x)), 
-      y: Math.max(0, Math.min(1, y)) 
-    });
+    setLayers(current => current.map(l => l.id === selectedLayerId
+      ? { ...l, x: Math.max(0, Math.min(1, x)), y: Math.max(0, Math.min(1, y)) }
+      : l
+    ));
   };
 
   const handleComposerMouseUp = () => {
+    if (isDragging) {
+      // Only report the final position of a drag, not every mouse move
+      onSessionChange({ layers });
+    }
     setIsDragging(false);
   };
 
+  // --- Version History ---
+  // Results are never overwritten: each one becomes a new node whose parent is the version it was made from
+  const recordComposite = (image: ImageAsset, usedPrompt: string, kind: CompositeRecord['kind'], parentId: string | null, strategy: CompositeStrategy | null = null) => {
+    const record: CompositeRecord = { id: crypto.randomUUID(), parentId, image, prompt: usedPrompt, kind, strategy, createdAt: Date.now() };
+    // Appended to the latest list: a retried request can finish after other versions were added
+    setComposites(current => [...current, record]);
+    setCurrentId(record.id);
+    setRedoStack([]);
+    onSessionChange(session => ({ composites: [...session.composites, record], currentCompositeId: record.id }));
+  };
+
+  const goToVersion = (id: string) => {
+    setCurrentId(id);
+    if (compareId === id) setCompareId(null);
+    onSessionChange({ currentCompositeId: id });
+  };
+
+  // Picking a version from the filmstrip starts a new line of edits from it
+  const handleSelectVersion = (id: string) => {
+    setRedoStack([]);
+    goToVersion(id);
+  };
+
+  const canUndo = !!currentVersion?.parentId;
+  const canRedo = redoStack.length > 0;
+
+  const handleUndo = () => {
+    if (!currentVersion?.parentId) return;
+    setRedoStack(stack => [...stack, currentVersion.id]);
+    goToVersion(currentVersion.parentId);
+  };
+
+  const handleRedo = () => {
+    const next = redoStack[redoStack.length - 1];
+    if (!next) return;
+    setRedoStack(stack => stack.slice(0, -1));
+    goToVersion(next);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+      // Leave text fields their own undo
+      if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) return;
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
   // --- Result Zoom Logic ---
   const handleWheel = (e: React.WheelEvent) => {
-    if (!compositeImage) return;
+    if (!compositeImage || compareVersion) return;
     e.preventDefault(); // Stop page scroll
     const delta = -e.deltaY * 0.001;
     setResultZoom(z => Math.max(1, Math.min(4, z + delta)));
   };
 
   const handleResultMouseDown = (e: React.MouseEvent) => {
-    if (!compositeImage || resultZoom === 1) return;
+    if (!compositeImage || compareVersion || isMasking || resultZoom === 1) return;
     setIsPanningResult(true);
     panStartRef.current = { x: e.clientX - resultPan.x, y: e.clientY - resultPan.y };
   };
@@ -99,42 +269,98 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ locationName, locationImage,
   const handleResultMouseUp = () => setIsPanningResult(false);
 
   // --- Action ---
-  const handleAction = async () => {
+  const keepComposite = (image: ImageAsset, usedPrompt: string, strategy: CompositeStrategy) => {
+    recordComposite(image, usedPrompt, 'composite', null, strategy);
+    setPrompt(""); // Clear prompt
+    setResultZoom(1); // Reset view
+    setResultPan({x:0, y:0});
+  };
+
+  const runComposite = async () => {
+    if (strategies.length === 1) {
+      const [strategy] = strategies;
+      const { result, prompt: usedPrompt } = await runCompositeStrategy(strategy, locationImage, layers, prompt);
+      if (result.kind !== 'image') {
+        setRefusal({ refusal: result, prompt: prompt || usedPrompt });
+        return;
+      }
+      keepComposite(result.image, usedPrompt, strategy);
+      return;
+    }
+
+    // Compare: run every selected strategy at once, then the user keeps one
+    setCandidates(strategies.map(strategy => ({ strategy, status: 'loading', prompt: '' })));
+    await Promise.all(strategies.map(async strategy => {
+      let changes: Partial<StrategyCandidate>;
+      try {
+        const { result, prompt: usedPrompt } = await runCompositeStrategy(strategy, locationImage, layers, prompt);
+        changes = result.kind === 'image'
+          ? { status: 'done', image: result.image, prompt: usedPrompt }
+          : { status: 'refused', refusal: result, prompt: usedPrompt };
+      } catch (error) {
+        console.error(error);
+        changes = { status: 'error', error: classifyError(error).message };
+      }
+      // The comparison may have been closed in the meantime
+      setCandidates(current => current?.map(c => c.strategy === strategy ? { ...c, ...changes } : c) ?? null);
+    }));
+  };
+
+  const handleKeepCandidate = (candidate: StrategyCandidate) => {
+    if (!candidate.image) return;
+    keepComposite(candidate.image, candidate.prompt, candidate.strategy);
+    setCandidates(null);
+  };
+
+  const runAction = async (action: () => Promise<void>, retry: () => void) => {
     setIsProcessing(true);
+    setRefusal(null);
     try {
-      if (!isEditingMode) {
-        // COMPOSITE STEP
-        if (!userImage) return;
-        
-        // 1. Merge locally based on visual coordinates
-        const mergedBase64 = await mergeImages(locationImage, userImage, fgPos.x, fgPos.y, fgScale);
-        
-        // 2. Send to Gemini to "Edit" (Refine/Blend)
-        const refinePrompt = prompt 
-          ? `Make this image look photorealistic and natural. ${prompt}`
-          : "Make this composite image look photorealistic. Fix lighting, shadows, and perspective to make the subject blend naturally into the environment.";
-          
-        const result = await editImage(mergedBase64, refinePrompt);
-        setCompositeImage(result);
-        setPrompt(""); // Clear prompt
-        setResultZoom(1); // Reset view
-        setResultPan({x:0, y:0});
-      } else {
-        // EDIT STEP
-        if (!compositeImage) return;
-        const result = await editImage(compositeImage, prompt);
-        setCompositeImage(result);
-      }
+      await action();
     } catch (error) {
-      console.error(error);
-      alert("Generation failed. Try a different prompt.");
+      showErrorToast("Generation failed", error, retry);
     } finally {
       setIsProcessing(false);
     }
   };
 
+  const handleAction = () => runAction(async () => {
+    if (!isEditingMode) {
+      // COMPOSITE STEP
+      if (!hasSubjects) return;
+      await runComposite();
+    } else {
+      // EDIT STEP
+      if (!currentVersion) return;
+      if (regionMask) {
+        const result = await editImageRegion(currentVersion.image, regionMask, prompt);
+        if (result.kind !== 'image') {
+          setRefusal({ refusal: result, prompt });
+          return;
+        }
+        recordComposite(result.image, prompt, 'region-edit', currentVersion.id);
+        setIsMasking(false);
+      } else {
+        const result = await editImage(currentVersion.image, prompt);
+        if (result.kind !== 'image') {
+          setRefusal({ refusal: result, prompt });
+          return;
+        }
+        recordComposite(result.image, prompt, 'edit', currentVersion.id);
+      }
+    }
+  }, () => actionsRef.current.handleAction());
+
+  // Start a new root version after rearranging the layers
+  const handleRecomposite = () => runAction(runComposite, () => actionsRef.current.handleRecomposite());
+
+  // A retry from an error toast runs the handler from the latest render, with the prompt,
+  // version and mask as they are now rather than when the request failed
+  const actionsRef = useRef({ handleAction, handleRecomposite });
+  actionsRef.current = { handleAction, handleRecomposite };
+
   return (
-    <div className="max-w-6xl mx-auto space-y-8" onMouseUp={() => { setIsDragging(false); setIsPanningResult(false); }}>
+    <div className="max-w-6xl mx-auto space-y-8" onMouseUp={() => { handleComposerMouseUp(); setIsPanningResult(false); }}>
        <div className="flex items-center justify-between">
           <button onClick={onBack} className="text-slate-400 hover:text-white flex items-center gap-2 transition-colors">
             &larr; Back to Search
@@ -153,86 +379,116 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ locationName, locationImage,
                 {/* Visual Composer Area */}
                 <div 
                   ref={composerRef}
-                  className="relative w-full aspect-square bg-slate-900 rounded-lg overflow-hidden border border-slate-600 shadow-inner group cursor-crosshair"
+                  className="relative w-full bg-slate-900 rounded-lg overflow-hidden border border-slate-600 shadow-inner group cursor-crosshair"
+                  style={{ aspectRatio: bgAspect }}
                   onMouseMove={handleComposerMouseMove}
                   onMouseLeave={handleComposerMouseUp}
                 >
                   {/* Background Layer */}
                   <img 
-                    src={`data:image/png;base64,${locationImage}`} 
+                    src={toDataUrl(locationImage)} 
                     alt="Background" 
                     className="w-full h-full object-cover pointer-events-none select-none" 
+                    onLoad={(e) => setBgAspect(e.currentTarget.naturalWidth / e.currentTarget.naturalHeight)}
                   />
 
-                  {/* Foreground Layer (Draggable) */}
-                  {userImage && (
+                  {/* Subject Layers (Draggable), later layers on top */}
+                  {layers.map((layer, idx) => (
                     <div 
-                      className="absolute transform -translate-x-1/2 -translate-y-1/2 cursor-move hover:ring-2 hover:ring-blue-500 rounded-lg transition-shadow"
+                      key={layer.id}
+                      className={`absolute cursor-move rounded-lg transition-shadow ${layer.id === selectedLayerId ? 'ring-2 ring-blue-500' : 'hover:ring-2 hover:ring-blue-500/50'}`}
                       style={{ 
-                        left: `${fgPos.x * 100}%`, 
-                        top: `${fgPos.y * 100}%`,
-                        width: `${33 * fgScale}%`, // Base width 33% of container
-                        zIndex: 10
+                        left: `${layer.x * 100}%`, 
+                        top: `${layer.y * 100}%`,
+                        width: `${LAYER_BASE_WIDTH * 100 * layer.scale}%`,
+                        transform: `translate(-50%, -50%) rotate(${layer.rotation}deg) scaleX(${layer.flipX ? -1 : 1})`,
+                        opacity: layer.opacity,
+                        zIndex: 10 + idx
                       }}
-                      onMouseDown={handleComposerMouseDown}
+                      onMouseDown={(e) => handleLayerMouseDown(e, layer.id)}
                     >
                       <img 
-                        src={`data:image/png;base64,${userImage}`} 
-                        alt="You" 
+                        src={toDataUrl(layer.image)} 
+                        alt={layer.name} 
                         className="w-full h-auto drop-shadow-2xl select-none"
                         draggable={false}
                       />
-                      {/* Interaction Hint */}
-                      {!isDragging && (
-                        <div className="absolute -top-8 left-1/2 -translate-x-1/2 bg-black/70 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none">
-                          Drag to move
-                        </div>
-                      )}
+                    </div>
+                  ))}
+
+                  {/* Interaction Hint */}
+                  {hasSubjects && !isDragging && (
+                    <div className="absolute top-2 left-1/2 -translate-x-1/2 bg-black/70 text-white text-xs px-2 py-1 rounded opacity-0 group-hover:opacity-100 transition-opacity whitespace-nowrap pointer-events-none z-50">
+                      Drag a subject to move it
                     </div>
                   )}
 
                   {/* Empty State Overlay */}
-                  {!userImage && (
-                    <div className="absolute inset-0 flex items-center justify-center bg-black/40 backdrop-blur-[2px]">
+                  {!hasSubjects && (
+                    <div className="absolute inset-0 flex flex-wrap items-center justify-center gap-3 bg-black/40 backdrop-blur-[2px]">
                        <button 
                          onClick={() => fileInputRef.current?.click()}
                          className="bg-blue-600 hover:bg-blue-500 text-white px-6 py-3 rounded-full font-bold shadow-lg flex items-center gap-2 transform hover:scale-105 transition-all"
                        >
                          <Upload size={20} /> Upload Your Photo
                        </button>
+                       <button 
+                         onClick={() => setIsCameraOpen(true)}
+                         className="bg-slate-700 hover:bg-slate-600 text-white px-6 py-3 rounded-full font-bold shadow-lg flex items-center gap-2 transform hover:scale-105 transition-all border border-slate-500"
+                       >
+                         <Camera size={20} /> Use Camera
+                       </button>
                     </div>
                   )}
                 </div>
 
                 {/* Composer Controls */}
-                {userImage && (
-                  <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-3">
-                    <div className="flex items-center justify-between text-sm text-slate-400">
-                      <span>Subject Size</span>
-                      <span>{Math.round(fgScale * 100)}%</span>
-                    </div>
-                    <input 
-                      type="range" 
-                      min="0.3" 
-                      max="2.0" 
-                      step="0.1" 
-                      value={fgScale} 
-                      onChange={(e) => setFgScale(parseFloat(e.target.value))}
-                      className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-blue-500"
-                    />
-                    <div className="flex justify-between mt-2">
-                       <button 
-                          onClick={() => fileInputRef.current?.click()} 
-                          className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1"
-                        >
-                          <RefreshCw size={12} /> Replace Photo
-                       </button>
-                       <p className="text-xs text-slate-500">Position the image where you want it.</p>
-                    </div>
-                  </div>
+                {hasSubjects && (
+                  <LayerPanel
+                    layers={layers}
+                    selectedId={selectedLayerId}
+                    onSelect={setSelectedLayerId}
+                    onUpdate={updateLayer}
+                    onMove={moveLayer}
+                    onDelete={deleteLayer}
+                    onAdd={() => fileInputRef.current?.click()}
+                    onCapture={() => setIsCameraOpen(true)}
+                    onRemoveBackground={setCutoutLayerId}
+                  />
+                )}
+
+                {hasSubjects && (
+                  <StrategyPicker selected={strategies} onChange={setStrategies} disabled={isProcessing} />
+                )}
+
+                {hasSubjects && isEditingMode && (
+                  <button
+                    onClick={handleRecomposite}
+                    disabled={isProcessing}
+                    className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1 self-start disabled:opacity-50"
+                  >
+                    <RefreshCw size={12} /> Generate a new composite from this arrangement
+                  </button>
                 )}
                 
-                <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+                <input ref={fileInputRef} type="file" accept="image/*" multiple onChange={handleFileChange} className="hidden" />
+
+                {isCameraOpen && (
+                  <CameraCapture onCapture={handleCameraCapture} onCancel={() => setIsCameraOpen(false)} />
+                )}
+
+                {candidates && (
+                  <StrategyComparison candidates={candidates} onPick={handleKeepCandidate} onCancel={() => setCandidates(null)} />
+                )}
+
+                {cutoutLayer && (
+                  <CutoutEditor
+                    image={cutoutLayer.originalImage ?? cutoutLayer.image}
+                    mask={cutoutLayer.mask}
+                    onApply={handleCutoutApplied}
+                    onCancel={() => setCutoutLayerId(null)}
+                  />
+                )}
              </div>
           </Card>
 
@@ -247,17 +503,102 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ locationName, locationImage,
                onMouseLeave={handleResultMouseUp}
                ref={resultRef}
              >
-                {compositeImage ? (
+                {currentVersion && compareVersion ? (
+                   <>
+                      <CompareView
+                        before={compareVersion.image}
+                        after={currentVersion.image}
+                        beforeLabel={versionLabel(composites, compareVersion.id)}
+                        afterLabel={`${versionLabel(composites, currentVersion.id)} (current)`}
+                        mode={compareMode}
+                      />
+                      <div className="absolute bottom-4 right-4 bg-slate-800/90 backdrop-blur p-1 rounded-lg border border-slate-600 flex items-center gap-1 shadow-xl">
+                         <button
+                           onClick={() => setCompareMode('slider')}
+                           className={`p-2 rounded ${compareMode === 'slider' ? 'bg-slate-600 text-white' : 'text-slate-300 hover:text-white hover:bg-slate-700'}`}
+                           title="Slider"
+                         >
+                            <SlidersHorizontal size={18} />
+                         </button>
+                         <button
+                           onClick={() => setCompareMode('side-by-side')}
+                           className={`p-2 rounded ${compareMode === 'side-by-side' ? 'bg-slate-600 text-white' : 'text-slate-300 hover:text-white hover:bg-slate-700'}`}
+                           title="Side by Side"
+                         >
+                            <Columns2 size={18} />
+                         </button>
+                         <div className="w-px h-6 bg-slate-600 mx-1"></div>
+                         <button onClick={() => setCompareId(null)} className="p-2 hover:bg-slate-700 rounded text-slate-300 hover:text-white" title="Stop Comparing">
+                            <X size={18} />
+                         </button>
+                      </div>
+                   </>
+                ) : compositeImage ? (
                    <>
                       <div 
-                        className="w-full h-full flex items-center justify-center transition-transform duration-75 ease-out origin-center cursor-grab active:cursor-grabbing"
+                        className="relative w-full h-full flex items-center justify-center transition-transform duration-75 ease-out origin-center cursor-grab active:cursor-grabbing"
                         style={{ transform: `translate(${resultPan.x}px, ${resultPan.y}px) scale(${resultZoom})` }}
                       >
                          <img 
-                           src={`data:image/png;base64,${compositeImage}`} 
+                           src={toDataUrl(compositeImage)} 
                            alt="Result" 
-                           className="max-w-full max-h-full object-contain pointer-events-none select-none shadow-2xl" 
+                           className="w-full h-full object-contain pointer-events-none select-none shadow-2xl" 
+                           onLoad={(e) => setResultSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
                          />
+                         {/* Keyed by version so each one starts with an empty mask */}
+                         {resultSize && (
+                           <RegionMask
+                             key={currentId}
+                             width={resultSize.width}
+                             height={resultSize.height}
+                             isActive={isMasking}
+                             tool={maskTool}
+                             brushSize={maskBrushSize}
+                             mask={regionMask}
+                             onChange={setRegionMask}
+                           />
+                         )}
+                      </div>
+
+                      {/* Region Toolbar */}
+                      <div className="absolute top-4 left-4 bg-slate-800/90 backdrop-blur p-1 rounded-lg border border-slate-600 flex items-center gap-1 shadow-xl">
+                         <button
+                           onClick={() => setIsMasking(m => !m)}
+                           className={`px-2 py-2 rounded text-xs font-bold flex items-center gap-1 ${isMasking ? 'bg-red-600 text-white' : 'text-slate-300 hover:text-white hover:bg-slate-700'}`}
+                           title="Paint the area the next edit may change"
+                         >
+                            <Brush size={16} /> {isMasking ? "Done" : "Select Region"}
+                         </button>
+                         {isMasking && (
+                            <>
+                               {([['brush', Brush, "Brush"], ['lasso', Lasso, "Lasso"], ['erase', Eraser, "Erase"]] as const).map(([tool, Icon, label]) => (
+                                  <button
+                                    key={tool}
+                                    onClick={() => setMaskTool(tool)}
+                                    className={`p-2 rounded ${maskTool === tool ? 'bg-slate-600 text-white' : 'text-slate-300 hover:text-white hover:bg-slate-700'}`}
+                                    title={label}
+                                  >
+                                     <Icon size={16} />
+                                  </button>
+                               ))}
+                               {maskTool !== 'lasso' && (
+                                  <input
+                                    type="range"
+                                    min="8"
+                                    max="256"
+                                    value={maskBrushSize}
+                                    onChange={(e) => setMaskBrushSize(parseInt(e.target.value, 10))}
+                                    className="w-20 h-2 mx-1 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-red-500"
+                                    title="Brush size"
+                                  />
+                               )}
+                            </>
+                         )}
+                         {regionMask && (
+                            <button onClick={() => setRegionMask(null)} className="p-2 rounded text-slate-300 hover:text-white hover:bg-slate-700" title="Clear selection">
+                               <Trash2 size={16} />
+                            </button>
+                         )}
                       </div>
 
                       {/* Floating Toolbar */}
@@ -280,7 +621,7 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ locationName, locationImage,
                          </div>
                          
                          <button 
-                            onClick={() => downloadBase64(compositeImage, `robo-ai-${Date.now()}.png`)}
+                            onClick={() => downloadImageAsset(compositeImage, `robo-ai-${Date.now()}`)}
                             className="bg-blue-600 hover:bg-blue-500 text-white p-3 rounded-lg shadow-lg border border-blue-400/30 transition-all"
                             title="Download Image"
                          >
@@ -292,32 +633,78 @@ const ImageEditor: React.FC<ImageEditorProps> = ({ locationName, locationImage,
                    <div className="text-center p-8 text-slate-500">
                       <Wand2 className="mx-auto mb-4 opacity-30" size={48} />
                       <p>Result will appear here</p>
-                      <p className="text-xs mt-2 opacity-50">Drag your photo on the left, then click Generate.</p>
+                      <p className="text-xs mt-2 opacity-50">Arrange your subjects on the left, then click Generate.</p>
                    </div>
                 )}
              </div>
 
              <div className="space-y-4">
+                <VersionHistory
+                  versions={composites}
+                  currentId={currentId}
+                  compareId={compareVersion?.id ?? null}
+                  canUndo={canUndo}
+                  canRedo={canRedo}
+                  onSelect={handleSelectVersion}
+                  onCompare={setCompareId}
+                  onUndo={handleUndo}
+                  onRedo={handleRedo}
+                />
+
+                {isEditingMode && currentId !== composites[composites.length - 1]?.id && (
+                  <p className="text-xs text-amber-300">
+                     Editing from {versionLabel(composites, currentId)}. Your next edit starts a new branch; later versions are kept.
+                  </p>
+                )}
+
+                <PromptPresetPicker
+                  key={isEditingMode ? 'edit' : 'composite'}
+                  category={isEditingMode ? 'edit' : 'composite'}
+                  variables={{ location: locationName, subject: describeSubjects(layers.length) }}
+                  prompt={prompt}
+                  onApply={setPrompt}
+                  disabled={isProcessing}
+                />
+
                 <textarea
                   value={prompt}
                   onChange={(e) => setPrompt(e.target.value)}
                   placeholder={
                      !isEditingMode 
                        ? "Optional: Add details for blending (e.g. 'Make it sunset lighting', 'Add a shadow on the ground')." 
-                       : "Refine further: e.g. 'Add a retro filter', 'Make it look like a painting'."
+                       : regionMask
+                         ? "Describe the change inside the selection: e.g. 'Fix the left hand', 'Replace the sign with a tree'."
+                         : "Refine further: e.g. 'Add a retro filter', 'Make it look like a painting'."
                   }
                   className="w-full bg-slate-800 border border-slate-600 rounded-lg p-3 text-white focus:ring-2 focus:ring-blue-500 outline-none h-24 resize-none placeholder:text-slate-500"
                 />
+
+                <PromptEnhancer
+                  prompt={prompt}
+                  image={currentVersion?.image ?? locationImage}
+                  style="image"
+                  onAccept={setPrompt}
+                  disabled={isProcessing}
+                />
+
+                {refusal && (
+                  <ModelRefusal
+                    refusal={refusal.refusal}
+                    prompt={refusal.prompt}
+                    onUseSuggestion={(suggestion) => { setPrompt(suggestion); setRefusal(null); }}
+                    onDismiss={() => setRefusal(null)}
+                  />
+                )}
                 
                 <div className="flex gap-3">
                    <Button 
                      onClick={handleAction} 
-                     disabled={!userImage || isProcessing} 
+                     disabled={!hasSubjects || isProcessing} 
                      isLoading={isProcessing}
                      className="flex-1"
                    >
                       <Wand2 size={18} />
-                      {isEditingMode ? "Apply Edit" : "Generate Composite"}
+                      {!isEditingMode ? (strategies.length > 1 ? "Compare Composites" : "Generate Composite") : regionMask ? "Apply to Selection" : "Apply Edit"}
                    </Button>
                    
                    {compositeImage && (
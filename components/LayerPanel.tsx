@@ -0,0 +1,110 @@
+import React from 'react';
+import { SubjectLayer } from '../types';
+import { toDataUrl } from '../utils';
+import Slider from './ui/Slider';
+import { Layers, ChevronUp, ChevronDown, Trash2, FlipHorizontal2, Plus, Scissors, Undo2, Camera } from 'lucide-react';
+
+interface LayerPanelProps {
+  layers: SubjectLayer[]; // Bottom-to-top
+  selectedId: string | null;
+  onSelect: (id: string) => void;
+  onUpdate: (id: string, changes: Partial<SubjectLayer>) => void;
+  onMove: (id: string, direction: 'up' | 'down') => void;
+  onDelete: (id: string) => void;
+  onAdd: () => void;
+  onCapture: () => void;
+  onRemoveBackground: (id: string) => void;
+}
+
+const LayerPanel: React.FC<LayerPanelProps> = ({ layers, selectedId, onSelect, onUpdate, onMove, onDelete, onAdd, onCapture, onRemoveBackground }) => {
+  const selected = layers.find(l => l.id === selectedId);
+  // Show the top of the stack first, like any layer panel
+  const ordered = [...layers].reverse();
+
+  return (
+    <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm text-slate-400 flex items-center gap-2"><Layers size={16} /> Layers</span>
+        <div className="flex gap-3">
+          <button onClick={onCapture} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1">
+            <Camera size={12} /> Camera
+          </button>
+          <button onClick={onAdd} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1">
+            <Plus size={12} /> Add Subject
+          </button>
+        </div>
+      </div>
+
+      <ul className="space-y-1">
+        {ordered.map((layer) => {
+          const idx = layers.indexOf(layer);
+          return (
+            <li
+              key={layer.id}
+              onClick={() => onSelect(layer.id)}
+              className={`flex items-center gap-2 p-1.5 rounded cursor-pointer border ${layer.id === selectedId ? 'bg-blue-900/40 border-blue-500' : 'border-transparent hover:bg-slate-700/50'}`}
+            >
+              <img src={toDataUrl(layer.image)} alt={layer.name} className="w-8 h-8 object-cover rounded" />
+              <span className="flex-1 text-sm text-slate-200 truncate">{layer.name}</span>
+              <button
+                onClick={(e) => { e.stopPropagation(); onMove(layer.id, 'up'); }}
+                disabled={idx === layers.length - 1}
+                className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                title="Bring Forward"
+              >
+                <ChevronUp size={14} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onMove(layer.id, 'down'); }}
+                disabled={idx === 0}
+                className="p-1 text-slate-400 hover:text-white disabled:opacity-30"
+                title="Send Backward"
+              >
+                <ChevronDown size={14} />
+              </button>
+              <button
+                onClick={(e) => { e.stopPropagation(); onDelete(layer.id); }}
+                className="p-1 text-slate-400 hover:text-red-400"
+                title="Delete Layer"
+              >
+                <Trash2 size={14} />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {selected && (
+        <div className="space-y-3 pt-3 border-t border-slate-700">
+          <Slider label="Size" value={selected.scale} display={`${Math.round(selected.scale * 100)}%`} min={0.1} max={3} step={0.05} onChange={(scale) => onUpdate(selected.id, { scale })} />
+          <Slider label="Rotation" value={selected.rotation} display={`${selected.rotation}°`} min={-180} max={180} step={1} onChange={(rotation) => onUpdate(selected.id, { rotation })} />
+          <Slider label="Opacity" value={selected.opacity} display={`${Math.round(selected.opacity * 100)}%`} min={0.05} max={1} step={0.05} onChange={(opacity) => onUpdate(selected.id, { opacity })} />
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => onUpdate(selected.id, { flipX: !selected.flipX })}
+              className={`text-xs flex items-center gap-1 px-2 py-1 rounded border ${selected.flipX ? 'bg-blue-600 border-blue-500 text-white' : 'border-slate-600 text-slate-300 hover:text-white'}`}
+            >
+              <FlipHorizontal2 size={12} /> Flip Horizontal
+            </button>
+            <button
+              onClick={() => onRemoveBackground(selected.id)}
+              className="text-xs flex items-center gap-1 px-2 py-1 rounded border border-slate-600 text-slate-300 hover:text-white"
+            >
+              <Scissors size={12} /> {selected.mask ? "Refine Cutout" : "Remove Background"}
+            </button>
+            {selected.originalImage && (
+              <button
+                onClick={() => onUpdate(selected.id, { image: selected.originalImage, originalImage: undefined, mask: undefined })}
+                className="text-xs flex items-center gap-1 px-2 py-1 rounded border border-slate-600 text-slate-300 hover:text-white"
+              >
+                <Undo2 size={12} /> Restore Original
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LayerPanel;
@@ -0,0 +1,231 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { MOTION_PRESETS, LOCAL_DURATIONS, MAX_ZOOM, MAX_PARALLAX, cameraAt, drawMotionFrame, outputSize, setKeyframe } from '../services/localAnimation';
+import { VIDEO_RESOLUTIONS } from '../services/videoPresets';
+import { CameraKeyframe, ImageAsset, LocalMotionSettings, VideoResolution } from '../types';
+import { loadImageAsset } from '../utils';
+import Slider from './ui/Slider';
+import { Play, Pause, Plus, Trash2 } from 'lucide-react';
+
+interface LocalMotionPanelProps {
+  image: ImageAsset | null;
+  motion: LocalMotionSettings;
+  onChange: (motion: LocalMotionSettings) => void;
+  disabled?: boolean;
+}
+
+const PREVIEW_WIDTH = 320;
+
+// Camera path editor for local animation. The preview is flat; parallax only shows in the render,
+// since separating the subject takes a model call.
+const LocalMotionPanel: React.FC<LocalMotionPanelProps> = ({ image, motion, onChange, disabled }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [background, setBackground] = useState<HTMLImageElement | null>(null);
+  const [previewTime, setPreviewTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [selectedIdx, setSelectedIdx] = useState(0);
+  const { keyframes } = motion;
+  const selected = keyframes[Math.min(selectedIdx, keyframes.length - 1)];
+  const { width, height } = outputSize(motion);
+
+  useEffect(() => {
+    setBackground(null);
+    if (!image) return;
+    let cancelled = false;
+    loadImageAsset(image)
+      .then(img => { if (!cancelled) setBackground(img); })
+      .catch(error => console.error("Could not load the preview image:", error));
+    return () => { cancelled = true; };
+  }, [image]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && background) drawMotionFrame(ctx, { background }, motion, previewTime);
+  }, [background, motion, previewTime, width, height]);
+
+  // Plays the path once at its real speed
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const startedAt = performance.now();
+    const tick = () => {
+      const t = Math.min(1, (performance.now() - startedAt) / (motion.durationSeconds * 1000));
+      setPreviewTime(t);
+      if (t < 1) {
+        frame = requestAnimationFrame(tick);
+      } else {
+        setIsPlaying(false);
+      }
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, motion.durationSeconds]);
+
+  const update = (changes: Partial<LocalMotionSettings>) => onChange({ ...motion, ...changes });
+
+  const updateSelected = (changes: Partial<CameraKeyframe>) => {
+    const idx = keyframes.indexOf(selected);
+    update({ keyframes: keyframes.map((k, i) => i === idx ? { ...k, ...changes } : k) });
+    if (changes.time !== undefined) setPreviewTime(changes.time);
+  };
+
+  const selectKeyframe = (idx: number) => {
+    setIsPlaying(false);
+    setSelectedIdx(idx);
+    setPreviewTime(keyframes[idx].time);
+  };
+
+  // A new keyframe starts where the camera already is, so adding one doesn't change the motion
+  const handleAddKeyframe = () => {
+    const keyframe = cameraAt(keyframes, previewTime);
+    const next = setKeyframe(keyframes, keyframe);
+    update({ keyframes: next });
+    setSelectedIdx(next.indexOf(keyframe));
+  };
+
+  const handleRemoveKeyframe = () => {
+    update({ keyframes: keyframes.filter(k => k !== selected) });
+    setSelectedIdx(0);
+  };
+
+  const selectedPosition = keyframes.indexOf(selected);
+  const isEndpoint = selectedPosition === 0 || selectedPosition === keyframes.length - 1;
+  // Middle keyframes can move in time, but not past their neighbours
+  const minTime = isEndpoint ? selected.time : keyframes[selectedPosition - 1].time + 0.01;
+  const maxTime = isEndpoint ? selected.time : keyframes[selectedPosition + 1].time - 0.01;
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-2">
+        {MOTION_PRESETS.map(preset => (
+          <button
+            key={preset.value}
+            onClick={() => { update({ keyframes: preset.keyframes }); setSelectedIdx(0); setPreviewTime(0); }}
+            disabled={disabled}
+            className={`px-2 py-2 rounded text-xs font-bold border transition-colors disabled:opacity-50
+              ${keyframes === preset.keyframes ? 'bg-purple-600 border-purple-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-300 hover:text-white hover:border-slate-500'}
+            `}
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="mx-auto rounded overflow-hidden border border-slate-600 bg-black" style={{ width: motion.aspectRatio === '16:9' ? PREVIEW_WIDTH : PREVIEW_WIDTH * 9 / 16 }}>
+          <canvas ref={canvasRef} width={width} height={height} className="w-full h-auto block" />
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => { if (!isPlaying) setPreviewTime(0); setIsPlaying(!isPlaying); }}
+            disabled={!background}
+            className="p-1.5 rounded bg-slate-800 border border-slate-600 text-slate-300 hover:text-white disabled:opacity-50"
+            title={isPlaying ? "Pause preview" : "Play preview"}
+          >
+            {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+          </button>
+          <div className="relative flex-1">
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.001}
+              value={previewTime}
+              onChange={(e) => { setIsPlaying(false); setPreviewTime(parseFloat(e.target.value)); }}
+              className="w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer accent-purple-500"
+            />
+            {/* Keyframe markers under the scrubber */}
+            <div className="relative h-3">
+              {keyframes.map((k, idx) => (
+                <button
+                  key={idx}
+                  onClick={() => selectKeyframe(idx)}
+                  className={`absolute top-0 w-2.5 h-2.5 -ml-[5px] rotate-45 border ${k === selected ? 'bg-purple-500 border-purple-300' : 'bg-slate-600 border-slate-400'}`}
+                  style={{ left: `${k.time * 100}%` }}
+                  title={`Keyframe at ${(k.time * motion.durationSeconds).toFixed(1)}s`}
+                />
+              ))}
+            </div>
+          </div>
+          <span className="text-xs text-slate-400 w-10 text-right">{(previewTime * motion.durationSeconds).toFixed(1)}s</span>
+        </div>
+      </div>
+
+      <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="text-xs font-bold text-slate-400 uppercase">Keyframe {selectedPosition + 1} of {keyframes.length}</span>
+          <div className="flex gap-3">
+            <button onClick={handleAddKeyframe} disabled={disabled} className="text-xs text-purple-400 hover:text-purple-300 flex items-center gap-1 disabled:opacity-50">
+              <Plus size={12} /> Add at {(previewTime * motion.durationSeconds).toFixed(1)}s
+            </button>
+            <button onClick={handleRemoveKeyframe} disabled={disabled || keyframes.length <= 2} className="text-xs text-slate-400 hover:text-red-400 flex items-center gap-1 disabled:opacity-30">
+              <Trash2 size={12} /> Remove
+            </button>
+          </div>
+        </div>
+        {!isEndpoint && (
+          <Slider accent="purple" label="Time" value={selected.time} display={`${(selected.time * motion.durationSeconds).toFixed(1)}s`} min={minTime} max={maxTime} step={0.01} onChange={time => updateSelected({ time })} disabled={disabled} />
+        )}
+        <Slider accent="purple" label="Horizontal" value={selected.x} display={`${Math.round(selected.x * 100)}%`} min={0} max={1} step={0.01} onChange={x => updateSelected({ x })} disabled={disabled} />
+        <Slider accent="purple" label="Vertical" value={selected.y} display={`${Math.round(selected.y * 100)}%`} min={0} max={1} step={0.01} onChange={y => updateSelected({ y })} disabled={disabled} />
+        <Slider accent="purple" label="Zoom" value={selected.zoom} display={`${selected.zoom.toFixed(2)}x`} min={1} max={MAX_ZOOM} step={0.01} onChange={zoom => updateSelected({ zoom })} disabled={disabled} />
+      </div>
+
+      <div className="grid grid-cols-3 gap-3">
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Aspect Ratio
+          <select
+            value={motion.aspectRatio}
+            onChange={(e) => update({ aspectRatio: e.target.value as LocalMotionSettings['aspectRatio'] })}
+            disabled={disabled}
+            className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+          >
+            <option value="16:9">Landscape (16:9)</option>
+            <option value="9:16">Portrait (9:16)</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Resolution
+          <select
+            value={motion.resolution}
+            onChange={(e) => update({ resolution: e.target.value as VideoResolution })}
+            disabled={disabled}
+            className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+          >
+            {VIDEO_RESOLUTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-400">
+          Duration
+          <select
+            value={motion.durationSeconds}
+            onChange={(e) => update({ durationSeconds: parseInt(e.target.value, 10) })}
+            disabled={disabled}
+            className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+          >
+            {LOCAL_DURATIONS.map(d => <option key={d} value={d}>{d} seconds</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div>
+        <Slider accent="purple"
+          label="Parallax (uses AI)"
+          value={motion.parallax}
+          display={motion.parallax > 0 ? `${Math.round(motion.parallax * 100)}%` : 'Off'}
+          min={0}
+          max={MAX_PARALLAX}
+          step={0.05}
+          onChange={parallax => update({ parallax })}
+          disabled={disabled}
+        />
+        <p className="text-xs text-slate-500 mt-1">
+          {motion.parallax > 0
+            ? "Cutting out the subject takes one AI model call, so this needs your API key and a connection. The subject then moves further than the background; small amounts look most natural."
+            : "Off: the whole image moves as one, rendered entirely in the browser with no AI calls."}
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default LocalMotionPanel;
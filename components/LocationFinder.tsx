@@ -1,71 +1,76 @@
 import React, { useState } from 'react';
-import { searchLocations, generateLocationImage } from '../services/geminiService';
+import { searchLocations } from '../services/geminiService';
+import { showErrorToast } from '../services/notifications';
 import Button from './ui/Button';
 import Card from './ui/Card';
+import BackgroundImport from './BackgroundImport';
+import BackgroundPicker from './BackgroundPicker';
 import ReactMarkdown from 'react-markdown';
-import { MapPin, Search, Image as ImageIcon } from 'lucide-react';
+import { ImageAsset, LocationResult } from '../types';
+import { MapPin, Search, ExternalLink } from 'lucide-react';
 
 interface LocationFinderProps {
-  onLocationSelected: (locationName: string, imageBase64: string) => void;
+  initialQuery?: string;
+  onLocationSelected: (locationName: string, image: ImageAsset, query: string) => void;
 }
 
-const LocationFinder: React.FC<LocationFinderProps> = ({ onLocationSelected }) => {
-  const [query, setQuery] = useState('');
+const LocationFinder: React.FC<LocationFinderProps> = ({ initialQuery = '', onLocationSelected }) => {
+  const [query, setQuery] = useState(initialQuery);
   const [isSearching, setIsSearching] = useState(false);
   const [resultText, setResultText] = useState('');
-  const [suggestedPlaces, setSuggestedPlaces] = useState<string[]>([]);
-  const [isGeneratingImage, setIsGeneratingImage] = useState(false);
+  const [suggestedPlaces, setSuggestedPlaces] = useState<LocationResult[]>([]);
+  const [pickingPlace, setPickingPlace] = useState<LocationResult | null>(null);
+  const [pickingDescription, setPickingDescription] = useState(''); // What the background model is asked to draw
 
-  const handleSearch = async (e: React.FormEvent) => {
+  const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
     if (!query.trim()) return;
-    
+    runSearch(query);
+  };
+
+  const runSearch = async (query: string) => {
     setIsSearching(true);
     setSuggestedPlaces([]);
     try {
-      const { text } = await searchLocations(query);
+      const { text, locations } = await searchLocations(query);
       setResultText(text);
-      
-      // Rudimentary parse to find list items if the model lists them
-      // This is a fallback if we don't get structured data.
-      const lines = text.split('\n');
-      const places = lines
-        .filter(line => line.match(/^\d+\.|^[-*]\s/)) // Starts with 1. or - or *
-        .map(line => line.replace(/^\d+\.|^[-*]\s/, '').trim())
-        .slice(0, 5);
-        
-      if (places.length > 0) {
-        setSuggestedPlaces(places);
+
+      if (locations.length > 0) {
+        setSuggestedPlaces(locations);
       } else {
-        // If no list format, just use the query itself as a potential "place" to confirm
-        setSuggestedPlaces([query]);
+        // Nothing structured came back, so offer the query itself as the "place" to confirm
+        setSuggestedPlaces([{ title: query.trim() }]);
       }
 
     } catch (error) {
-      console.error(error);
-      alert("Failed to find locations. Please try again.");
+      showErrorToast("Location search failed", error, () => runSearch(query));
     } finally {
       setIsSearching(false);
     }
   };
 
-  const handleSelectPlace = async (place: string) => {
-    setIsGeneratingImage(true);
-    try {
-      // Strip any extra description text that might have been captured
-      const cleanPlaceName = place.split(':')[0].split('-')[0].trim();
-      const base64 = await generateLocationImage(cleanPlaceName);
-      onLocationSelected(cleanPlaceName, base64);
-    } catch (error) {
-      console.error(error);
-      alert("Failed to generate location setting. Please try another.");
-    } finally {
-      setIsGeneratingImage(false);
-    }
+  const handlePickPlace = (place: LocationResult) => {
+    // The address disambiguates places that share a name; the title alone is what we show downstream
+    setPickingDescription(place.address ? `${place.title}, ${place.address}` : place.title);
+    setPickingPlace(place);
   };
 
+  if (pickingPlace) {
+    return (
+      <div className="max-w-4xl mx-auto">
+        <BackgroundPicker
+          locationName={pickingPlace.title}
+          description={pickingDescription}
+          onDescriptionChange={setPickingDescription}
+          onUse={(image) => onLocationSelected(pickingPlace.title, image, query.trim())}
+          onCancel={() => setPickingPlace(null)}
+        />
+      </div>
+    );
+  }
+
   return (
-    <div className="max-w-3xl mx-auto">
+    <div className="max-w-3xl mx-auto space-y-8">
       <Card title="Step 1: Find Your Setting">
         <form onSubmit={handleSearch} className="flex gap-4 mb-8">
           <input 
@@ -94,29 +99,45 @@ const LocationFinder: React.FC<LocationFinderProps> = ({ onLocationSelected }) =
           <div className="space-y-4">
             <h3 className="text-lg font-semibold text-white">Select a Location to Generate Setting</h3>
             <div className="grid gap-3 md:grid-cols-2">
-              {suggestedPlaces.map((place, idx) => (
-                <button
-                  key={idx}
-                  onClick={() => handleSelectPlace(place)}
-                  disabled={isGeneratingImage}
-                  className="text-left p-4 bg-slate-700 hover:bg-blue-900/30 border border-slate-600 hover:border-blue-500 rounded-lg transition-all group"
+              {suggestedPlaces.map((place) => (
+                <div
+                  key={place.placeId || place.title}
+                  className="relative p-4 bg-slate-700 hover:bg-blue-900/30 border border-slate-600 hover:border-blue-500 rounded-lg transition-all group"
                 >
-                  <div className="flex items-center gap-3">
-                    <MapPin className="text-blue-400 group-hover:text-blue-300" size={20} />
-                    <span className="font-medium text-slate-200 group-hover:text-white">{place}</span>
-                  </div>
-                </button>
+                  <button
+                    onClick={() => handlePickPlace(place)}
+                    className="text-left w-full"
+                  >
+                    <div className="flex items-start gap-3 pr-6">
+                      <MapPin className="text-blue-400 group-hover:text-blue-300 shrink-0 mt-0.5" size={20} />
+                      <div>
+                        <span className="font-medium text-slate-200 group-hover:text-white">{place.title}</span>
+                        {place.address && (
+                          <p className="text-xs text-slate-400 mt-1">{place.address}</p>
+                        )}
+                      </div>
+                    </div>
+                  </button>
+                  {place.uri && (
+                    <a
+                      href={place.uri}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="absolute top-4 right-4 text-slate-400 hover:text-blue-300"
+                      title="Open in Google Maps"
+                    >
+                      <ExternalLink size={16} />
+                    </a>
+                  )}
+                </div>
               ))}
             </div>
-            {isGeneratingImage && (
-              <div className="text-center py-8 animate-pulse">
-                <ImageIcon className="mx-auto mb-2 text-blue-400" size={40} />
-                <p className="text-blue-300">Generating high-fidelity environment with Nano Banana...</p>
-              </div>
-            )}
           </div>
         )}
       </Card>
+
+      {/* Real location photos skip generation and go into the same pipeline */}
+      <BackgroundImport onUse={(name, image) => onLocationSelected(name, image, query.trim())} />
     </div>
   );
 };
@@ -0,0 +1,86 @@
+import React, { useState, useEffect } from 'react';
+import { suggestPromptRewrites } from '../services/geminiService';
+import { ImageRefusal } from '../types';
+import { ShieldAlert, MessageSquareText, Lightbulb, X } from 'lucide-react';
+
+interface ModelRefusalProps {
+  refusal: ImageRefusal;
+  prompt: string; // What the user asked for; rewrites are based on it
+  onUseSuggestion: (prompt: string) => void;
+  onDismiss?: () => void;
+}
+
+// Explains why the image model didn't return an image and offers rephrased prompts
+const ModelRefusal: React.FC<ModelRefusalProps> = ({ refusal, prompt, onUseSuggestion, onDismiss }) => {
+  const [suggestions, setSuggestions] = useState<string[]>([]);
+  const [isLoadingSuggestions, setIsLoadingSuggestions] = useState(false);
+
+  useEffect(() => {
+    if (!prompt.trim()) return;
+    let cancelled = false;
+    setSuggestions([]);
+    setIsLoadingSuggestions(true);
+    suggestPromptRewrites(prompt, refusal)
+      .then(result => !cancelled && setSuggestions(result))
+      // Suggestions are a nice-to-have; the explanation above still stands without them
+      .catch(error => console.error("Prompt rewrite failed:", error))
+      .finally(() => !cancelled && setIsLoadingSuggestions(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [refusal, prompt]);
+
+  const isBlocked = refusal.kind === 'blocked';
+  const Icon = isBlocked ? ShieldAlert : MessageSquareText;
+
+  return (
+    <div className="rounded-lg border border-amber-500/40 bg-amber-900/20 p-4 space-y-3 text-sm">
+      <div className="flex items-start gap-3">
+        <Icon className="text-amber-400 shrink-0 mt-0.5" size={18} />
+        <div className="flex-1 min-w-0">
+          {refusal.kind === 'blocked' ? (
+            <>
+              <p className="font-bold text-amber-200">
+                {refusal.stage === 'prompt' ? "Your prompt was blocked by the safety filters" : "The generated image was blocked by the safety filters"}
+              </p>
+              {refusal.category && <p className="text-amber-100/80 mt-1">Category: {refusal.category}</p>}
+              {refusal.message && <p className="text-slate-300 mt-1">{refusal.message}</p>}
+            </>
+          ) : (
+            <>
+              <p className="font-bold text-amber-200">The model replied instead of making an image</p>
+              <p className="text-slate-300 mt-1 max-h-32 overflow-y-auto whitespace-pre-wrap">{refusal.text}</p>
+            </>
+          )}
+        </div>
+        {onDismiss && (
+          <button onClick={onDismiss} className="text-slate-500 hover:text-white" title="Dismiss">
+            <X size={16} />
+          </button>
+        )}
+      </div>
+
+      {isLoadingSuggestions && (
+        <p className="text-xs text-amber-200/70 animate-pulse">Finding other ways to phrase it...</p>
+      )}
+      {suggestions.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-bold uppercase tracking-wider text-amber-200/70 flex items-center gap-1">
+            <Lightbulb size={12} /> Try instead
+          </p>
+          {suggestions.map((suggestion, idx) => (
+            <button
+              key={idx}
+              onClick={() => onUseSuggestion(suggestion)}
+              className="block w-full text-left rounded bg-slate-800/80 hover:bg-slate-700 border border-slate-600 px-3 py-2 text-slate-200 transition-colors"
+            >
+              {suggestion}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelRefusal;
@@ -0,0 +1,129 @@
+import React, { useState, useEffect } from 'react';
+import { listProjects, deleteProject, duplicateProject } from '../services/projectStore';
+import { showErrorToast } from '../services/notifications';
+import { ProjectSummary } from '../types';
+import { toDataUrl } from '../utils';
+import Button from './ui/Button';
+import Card from './ui/Card';
+import { FolderOpen, Copy, Trash2, Plus, Image as ImageIcon, Video } from 'lucide-react';
+
+interface ProjectGalleryProps {
+  currentProjectId: string | null;
+  onOpen: (projectId: string) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const ProjectGallery: React.FC<ProjectGalleryProps> = ({ currentProjectId, onOpen, onNew, onClose }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (error) {
+      showErrorToast("Could not load saved projects", error, refresh);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const handleDuplicate = async (id: string) => {
+    setBusyId(id);
+    try {
+      await duplicateProject(id);
+      await refresh();
+    } catch (error) {
+      showErrorToast("Failed to duplicate project", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!confirm(`Delete "${project.name}"? Its images and videos will be lost.`)) return;
+    setBusyId(project.id);
+    try {
+      await deleteProject(project.id);
+      await refresh();
+    } catch (error) {
+      showErrorToast("Failed to delete project", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto">
+       <div className="flex items-center justify-between mb-4">
+          <button onClick={onClose} className="text-slate-400 hover:text-white flex items-center gap-2 transition-colors">
+            &larr; Back
+          </button>
+          <Button onClick={onNew}>
+             <Plus size={18} /> New Project
+          </Button>
+       </div>
+
+       <Card title="Your Projects">
+          {isLoading ? (
+             <p className="text-center py-12 text-slate-500 animate-pulse">Loading projects...</p>
+          ) : projects.length === 0 ? (
+             <div className="text-center py-12 text-slate-500">
+                <FolderOpen className="mx-auto mb-4 opacity-30" size={48} />
+                <p>No saved projects yet.</p>
+                <p className="text-xs mt-2 opacity-70">Projects are saved automatically as you work.</p>
+             </div>
+          ) : (
+             <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {projects.map(project => (
+                   <div
+                     key={project.id}
+                     className={`bg-slate-800/60 rounded-lg border overflow-hidden flex flex-col ${project.id === currentProjectId ? 'border-blue-500' : 'border-slate-700'}`}
+                   >
+                      <button onClick={() => onOpen(project.id)} className="aspect-video bg-slate-900 flex items-center justify-center overflow-hidden group">
+                         {project.thumbnail ? (
+                            <img
+                              src={toDataUrl(project.thumbnail)}
+                              alt={project.name}
+                              className="w-full h-full object-cover group-hover:scale-105 transition-transform"
+                            />
+                         ) : (
+                            <ImageIcon className="text-slate-600" size={40} />
+                         )}
+                      </button>
+                      <div className="p-4 flex-1 flex flex-col gap-2">
+                         <div>
+                            <p className="font-bold text-white truncate">{project.name}</p>
+                            <p className="text-xs text-slate-400">{new Date(project.updatedAt).toLocaleString()}</p>
+                         </div>
+                         <div className="flex gap-3 text-xs text-slate-400">
+                            <span className="flex items-center gap-1"><ImageIcon size={12} /> {project.compositeCount}</span>
+                            <span className="flex items-center gap-1"><Video size={12} /> {project.videoCount}</span>
+                         </div>
+                         <div className="flex gap-2 mt-auto pt-2">
+                            <Button onClick={() => onOpen(project.id)} className="flex-1 px-3 py-2 text-sm" disabled={busyId === project.id}>
+                               <FolderOpen size={16} /> Open
+                            </Button>
+                            <Button onClick={() => handleDuplicate(project.id)} variant="secondary" className="px-3 py-2" title="Duplicate" disabled={busyId === project.id}>
+                               <Copy size={16} />
+                            </Button>
+                            <Button onClick={() => handleDelete(project)} variant="danger" className="px-3 py-2" title="Delete" disabled={busyId === project.id}>
+                               <Trash2 size={16} />
+                            </Button>
+                         </div>
+                      </div>
+                   </div>
+                ))}
+             </div>
+          )}
+       </Card>
+    </div>
+  );
+};
+
+export default ProjectGallery;
@@ -0,0 +1,100 @@
+import React, { useState } from 'react';
+import { enhancePrompt } from '../services/geminiService';
+import { showErrorToast } from '../services/notifications';
+import { ImageAsset, PromptStyle } from '../types';
+import { diffWords } from '../utils';
+import { Sparkles, Check, X } from 'lucide-react';
+
+interface PromptEnhancerProps {
+  prompt: string;
+  image: ImageAsset | null; // What the prompt will be applied to, so the details fit the picture
+  style: PromptStyle;
+  onAccept: (prompt: string) => void;
+  disabled?: boolean;
+  accent?: 'blue' | 'purple'; // Blue in the editor, purple in the video tools
+}
+
+const ACCENTS = {
+  blue: { text: 'text-blue-400 hover:text-blue-300', ring: 'focus:ring-blue-500' },
+  purple: { text: 'text-purple-400 hover:text-purple-300', ring: 'focus:ring-purple-500' },
+};
+
+const DIFF_STYLES = {
+  same: 'text-slate-300',
+  added: 'text-green-300 bg-green-900/40 rounded',
+  removed: 'text-red-300 bg-red-900/30 rounded line-through',
+};
+
+// Rewrites a short prompt in detail with a text model, then shows what changed so the user can
+// tweak the rewrite before using it. Nothing replaces the prompt until they accept.
+const PromptEnhancer: React.FC<PromptEnhancerProps> = ({ prompt, image, style, onAccept, disabled, accent = 'blue' }) => {
+  const [original, setOriginal] = useState(''); // The prompt the rewrite was made from
+  const [draft, setDraft] = useState<string | null>(null);
+  const [isEnhancing, setIsEnhancing] = useState(false);
+
+  const handleEnhance = async () => {
+    const source = prompt.trim();
+    if (!source) return;
+    setIsEnhancing(true);
+    try {
+      const enhanced = await enhancePrompt(source, image, style);
+      setOriginal(source);
+      setDraft(enhanced);
+    } catch (error) {
+      showErrorToast("Could not enhance the prompt", error, handleEnhance);
+    } finally {
+      setIsEnhancing(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!draft?.trim()) return;
+    onAccept(draft.trim());
+    setDraft(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end">
+        <button
+          onClick={handleEnhance}
+          disabled={disabled || isEnhancing || !prompt.trim()}
+          className={`text-xs flex items-center gap-1 disabled:opacity-50 ${ACCENTS[accent].text}`}
+          title={style === 'video' ? "Rewrite with camera and motion detail" : "Rewrite with lighting and editing detail"}
+        >
+          <Sparkles size={12} className={isEnhancing ? 'animate-pulse' : ''} />
+          {isEnhancing ? "Enhancing..." : draft !== null ? "Enhance again" : "Enhance"}
+        </button>
+      </div>
+
+      {draft !== null && (
+        <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-3">
+          <span className="text-xs font-bold text-slate-400 uppercase">Enhanced Prompt</span>
+          <p className="text-sm leading-relaxed">
+            {diffWords(original, draft).map((part, idx) => (
+              <React.Fragment key={idx}>
+                {idx > 0 && ' '}
+                <span className={`px-0.5 ${DIFF_STYLES[part.type]}`}>{part.text}</span>
+              </React.Fragment>
+            ))}
+          </p>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className={`w-full bg-slate-800 border border-slate-600 rounded-lg p-2 text-sm text-white h-24 resize-none outline-none focus:ring-2 ${ACCENTS[accent].ring}`}
+          />
+          <div className="flex justify-end gap-3">
+            <button onClick={() => setDraft(null)} className="text-xs text-slate-400 hover:text-white flex items-center gap-1">
+              <X size={12} /> Keep mine
+            </button>
+            <button onClick={handleAccept} disabled={disabled || !draft.trim()} className={`text-xs font-bold flex items-center gap-1 disabled:opacity-50 ${ACCENTS[accent].text}`}>
+              <Check size={12} /> Use this
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PromptEnhancer;
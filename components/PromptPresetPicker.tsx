@@ -0,0 +1,138 @@
+import React, { useState, useRef } from 'react';
+import { PROMPT_VARIABLES, PromptVariables, addUserPreset, deleteUserPreset, exportPresets, fillPromptTemplate, getPresets, importPresets } from '../services/promptPresets';
+import { showErrorToast } from '../services/notifications';
+import { PromptCategory } from '../types';
+import { downloadBlob } from '../utils';
+import { BookmarkPlus, Download, Trash2, Upload } from 'lucide-react';
+
+interface PromptPresetPickerProps {
+  category: PromptCategory;
+  variables: PromptVariables;
+  prompt: string; // Saved as-is, so it can contain placeholders
+  onApply: (prompt: string) => void;
+  disabled?: boolean;
+  accent?: 'blue' | 'purple'; // Blue in the editor, purple in the video tools
+}
+
+const ACCENTS = {
+  blue: { ring: 'focus:ring-blue-500', text: 'text-blue-400 hover:text-blue-300' },
+  purple: { ring: 'focus:ring-purple-500', text: 'text-purple-400 hover:text-purple-300' },
+};
+
+// Fills the prompt box from a saved preset, and saves, shares or removes the user's own
+const PromptPresetPicker: React.FC<PromptPresetPickerProps> = ({ category, variables, prompt, onApply, disabled, accent = 'blue' }) => {
+  const [presets, setPresets] = useState(() => getPresets(category));
+  const [selectedId, setSelectedId] = useState('');
+  const [saveName, setSaveName] = useState<string | null>(null); // Set while naming a new preset
+  const [notice, setNotice] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const selected = presets.find(p => p.id === selectedId) ?? null;
+  const userPresets = presets.filter(p => !p.builtIn);
+
+  const refresh = () => setPresets(getPresets(category));
+
+  const handleSelect = (id: string) => {
+    setSelectedId(id);
+    setNotice(null);
+    const preset = presets.find(p => p.id === id);
+    if (preset) onApply(fillPromptTemplate(preset.template, variables));
+  };
+
+  const handleSave = () => {
+    if (!saveName?.trim() || !prompt.trim()) return;
+    const preset = addUserPreset(saveName, category, prompt);
+    refresh();
+    setSelectedId(preset.id);
+    setSaveName(null);
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    if (!confirm(`Delete the preset "${selected.name}"?`)) return;
+    deleteUserPreset(selected.id);
+    refresh();
+    setSelectedId('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow importing the same file again
+    if (!file) return;
+    try {
+      const count = await importPresets(file);
+      refresh();
+      setNotice(`Imported ${count} preset${count === 1 ? '' : 's'}.`);
+    } catch (error) {
+      showErrorToast("Could not import presets", error);
+    }
+  };
+
+  const iconButton = `p-1.5 rounded border border-slate-600 bg-slate-800 text-slate-400 hover:text-white disabled:opacity-30`;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <select
+          value={selectedId}
+          onChange={(e) => handleSelect(e.target.value)}
+          disabled={disabled}
+          className={`flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm text-white outline-none focus:ring-2 ${ACCENTS[accent].ring}`}
+        >
+          <option value="">Prompt presets...</option>
+          <optgroup label="Built-in">
+            {presets.filter(p => p.builtIn).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </optgroup>
+          {userPresets.length > 0 && (
+            <optgroup label="Yours">
+              {userPresets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </optgroup>
+          )}
+        </select>
+        <button onClick={() => setSaveName(saveName === null ? '' : null)} disabled={disabled || !prompt.trim()} className={iconButton} title="Save the prompt as a preset">
+          <BookmarkPlus size={16} />
+        </button>
+        <button onClick={handleDelete} disabled={disabled || !selected || selected.builtIn} className={`${iconButton} hover:text-red-400`} title="Delete this preset">
+          <Trash2 size={16} />
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} disabled={disabled} className={iconButton} title="Import presets (JSON)">
+          <Upload size={16} />
+        </button>
+        <button onClick={() => downloadBlob(exportPresets(), 'prompt-presets.json')} disabled={userPresets.length === 0} className={iconButton} title="Export your presets (JSON)">
+          <Download size={16} />
+        </button>
+        <input type="file" ref={fileInputRef} onChange={handleImport} accept="application/json,.json" className="hidden" />
+      </div>
+
+      {saveName !== null && (
+        <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-2">
+          <div className="flex gap-2">
+            <input
+              autoFocus
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleSave(); if (e.key === 'Escape') setSaveName(null); }}
+              placeholder="Preset name"
+              className={`flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm text-white outline-none focus:ring-2 ${ACCENTS[accent].ring}`}
+            />
+            <button onClick={handleSave} disabled={!saveName.trim()} className={`text-sm font-bold disabled:opacity-50 ${ACCENTS[accent].text}`}>
+              Save
+            </button>
+            <button onClick={() => setSaveName(null)} className="text-sm text-slate-400 hover:text-white">
+              Cancel
+            </button>
+          </div>
+          <p className="text-xs text-slate-500">
+            Saved exactly as typed. Placeholders are filled in when the preset is used:{' '}
+            {PROMPT_VARIABLES.map((v, idx) => (
+              <span key={v.name}>{idx > 0 && ', '}<code className="text-slate-300">{`{${v.name}}`}</code> ({v.description})</span>
+            ))}.
+          </p>
+        </div>
+      )}
+
+      {notice && <p className="text-xs text-slate-400">{notice}</p>}
+    </div>
+  );
+};
+
+export default PromptPresetPicker;
@@ -0,0 +1,147 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ImageAsset } from '../types';
+import { dataUrlToImageAsset } from '../utils';
+
+export type MaskTool = 'brush' | 'lasso' | 'erase';
+
+interface RegionMaskProps {
+  width: number; // Natural size of the image being masked
+  height: number;
+  isActive: boolean; // When false the mask stays visible but the image can be panned again
+  tool: MaskTool;
+  brushSize: number; // In image pixels
+  mask: ImageAsset | null; // Null clears the canvas
+  onChange: (mask: ImageAsset | null) => void; // PNG, alpha = area to change; null once nothing is painted
+}
+
+type Point = { x: number; y: number };
+
+// Sits over the result image (both object-contain in the same box), so it follows the result zoom/pan
+const RegionMask: React.FC<RegionMaskProps> = ({ width, height, isActive, tool, brushSize, mask, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<Point | null>(null);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [lassoPoints, setLassoPoints] = useState<Point[]>([]);
+
+  useEffect(() => {
+    if (mask) return;
+    const ctx = canvasRef.current?.getContext('2d');
+    ctx?.clearRect(0, 0, width, height);
+  }, [mask, width, height]);
+
+  // The canvas is letterboxed by object-contain, and the bounding rect already includes the zoom
+  const toImagePoint = (e: React.MouseEvent): Point => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const scale = Math.min(rect.width / width, rect.height / height);
+    const offsetX = (rect.width - width * scale) / 2;
+    const offsetY = (rect.height - height * scale) / 2;
+    return {
+      x: (e.clientX - rect.left - offsetX) / scale,
+      y: (e.clientY - rect.top - offsetY) / scale,
+    };
+  };
+
+  const strokeTo = (point: Point) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    const from = lastPointRef.current ?? point;
+    ctx.globalCompositeOperation = tool === 'erase' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#ef4444';
+    ctx.lineWidth = brushSize;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    ctx.globalCompositeOperation = 'source-over';
+    lastPointRef.current = point;
+  };
+
+  const fillLasso = (points: Point[]) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx || points.length < 3) return;
+    ctx.fillStyle = '#ef4444';
+    ctx.beginPath();
+    ctx.moveTo(points[0].x, points[0].y);
+    points.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.fill();
+  };
+
+  const reportMask = () => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const alpha = ctx.getImageData(0, 0, width, height).data;
+    let isEmpty = true;
+    for (let i = 3; i < alpha.length; i += 4) {
+      if (alpha[i] > 0) {
+        isEmpty = false;
+        break;
+      }
+    }
+    onChange(isEmpty ? null : dataUrlToImageAsset(canvas.toDataURL('image/png')));
+  };
+
+  const handleMouseDown = (e: React.MouseEvent) => {
+    e.stopPropagation(); // Don't start panning the result
+    const point = toImagePoint(e);
+    setIsDrawing(true);
+    if (tool === 'lasso') {
+      setLassoPoints([point]);
+    } else {
+      lastPointRef.current = null;
+      strokeTo(point);
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    if (!isDrawing) return;
+    const point = toImagePoint(e);
+    if (tool === 'lasso') {
+      setLassoPoints(points => [...points, point]);
+    } else {
+      strokeTo(point);
+    }
+  };
+
+  const finishDrawing = () => {
+    if (!isDrawing) return;
+    setIsDrawing(false);
+    lastPointRef.current = null;
+    if (tool === 'lasso') {
+      fillLasso(lassoPoints);
+      setLassoPoints([]);
+    }
+    reportMask();
+  };
+
+  return (
+    <>
+      <canvas
+        ref={canvasRef}
+        width={width}
+        height={height}
+        className={`absolute inset-0 w-full h-full object-contain opacity-50 ${isActive ? 'cursor-crosshair' : 'pointer-events-none'}`}
+        onMouseDown={handleMouseDown}
+        onMouseMove={handleMouseMove}
+        onMouseUp={finishDrawing}
+        onMouseLeave={finishDrawing}
+      />
+      {lassoPoints.length > 1 && (
+        <svg viewBox={`0 0 ${width} ${height}`} preserveAspectRatio="xMidYMid meet" className="absolute inset-0 w-full h-full pointer-events-none">
+          <polyline
+            points={lassoPoints.map(p => `${p.x},${p.y}`).join(' ')}
+            fill="rgba(239, 68, 68, 0.25)"
+            stroke="#ef4444"
+            strokeWidth={Math.max(2, width / 400)}
+            strokeDasharray={`${width / 100}`}
+          />
+        </svg>
+      )}
+    </>
+  );
+};
+
+export default RegionMask;
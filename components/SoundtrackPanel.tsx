@@ -0,0 +1,336 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { DEFAULT_SOUNDTRACK, captionAt, createAudioClip, createCaption, hasSoundtrack, renderWithSoundtrack, startVoiceRecording, VoiceRecording } from '../services/soundtrack';
+import { showErrorToast } from '../services/notifications';
+import Button from './ui/Button';
+import Slider from './ui/Slider';
+import { AudioClip, Caption, CaptionPosition, Soundtrack } from '../types';
+import { loadVideoBlob } from '../utils';
+import { AudioLines, Mic, Square, Upload, Music, Trash2, Plus, Captions, X, XCircle } from 'lucide-react';
+
+interface SoundtrackPanelProps {
+  blob: Blob;
+  onRendered: (video: Blob) => void;
+  onClose: () => void;
+}
+
+const AudioPreview: React.FC<{ blob: Blob }> = ({ blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url ? <audio src={url} controls className="w-full h-8" /> : null;
+};
+
+interface AudioClipControlsProps {
+  clip: AudioClip;
+  duration: number; // Of the video
+  onChange: (clip: AudioClip) => void;
+  onRemove: () => void;
+  disabled?: boolean;
+}
+
+const AudioClipControls: React.FC<AudioClipControlsProps> = ({ clip, duration, onChange, onRemove, disabled }) => (
+  <div className="space-y-3">
+    <div className="flex items-center gap-2">
+      <span className="text-sm text-slate-200 truncate flex-1" title={clip.name}>{clip.name}</span>
+      <button onClick={onRemove} disabled={disabled} className="p-1 text-slate-400 hover:text-red-400" title="Remove">
+        <Trash2 size={14} />
+      </button>
+    </div>
+    <AudioPreview blob={clip.blob} />
+    <div className="grid grid-cols-2 gap-3">
+      <Slider label="Volume" value={clip.volume} display={`${Math.round(clip.volume * 100)}%`} min={0} max={1} step={0.05} onChange={volume => onChange({ ...clip, volume })} disabled={disabled} accent="purple" />
+      <Slider label="Starts at" value={clip.offset} display={`${clip.offset.toFixed(1)}s`} min={0} max={Math.max(0, duration - 0.1)} step={0.1} onChange={offset => onChange({ ...clip, offset })} disabled={disabled} accent="purple" />
+      <Slider label="Fade in" value={clip.fadeIn} display={`${clip.fadeIn.toFixed(1)}s`} min={0} max={5} step={0.1} onChange={fadeIn => onChange({ ...clip, fadeIn })} disabled={disabled} accent="purple" />
+      <Slider label="Fade out" value={clip.fadeOut} display={`${clip.fadeOut.toFixed(1)}s`} min={0} max={5} step={0.1} onChange={fadeOut => onChange({ ...clip, fadeOut })} disabled={disabled} accent="purple" />
+    </div>
+  </div>
+);
+
+// Voiceover, music and captions for one clip, mixed into a new video in the browser
+const SoundtrackPanel: React.FC<SoundtrackPanelProps> = ({ blob, onRendered, onClose }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const musicInputRef = useRef<HTMLInputElement>(null);
+  const voiceInputRef = useRef<HTMLInputElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [soundtrack, setSoundtrack] = useState<Soundtrack>(DEFAULT_SOUNDTRACK);
+  const [recording, setRecording] = useState<{ session: VoiceRecording; offset: number } | null>(null);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const recordingRef = useRef<VoiceRecording | null>(null);
+
+  const isRendering = progress !== null;
+  const isBusy = isRendering || !!recording;
+  const activeCaption = captionAt(soundtrack.captions, currentTime);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  // The player can't tell the length of videos recorded in the browser, so measure it separately
+  useEffect(() => {
+    let cancelled = false;
+    loadVideoBlob(blob)
+      .then(({ duration: length, release }) => {
+        release();
+        if (!cancelled) setDuration(length);
+      })
+      .catch(error => showErrorToast("Could not read the video", error));
+    return () => { cancelled = true; };
+  }, [blob]);
+
+  // Don't leave the microphone on or an export running after closing
+  useEffect(() => () => {
+    recordingRef.current?.cancel();
+    abortRef.current?.abort();
+  }, []);
+
+  const update = (changes: Partial<Soundtrack>) => setSoundtrack(current => ({ ...current, ...changes }));
+
+  const updateCaption = (id: string, changes: Partial<Caption>) => {
+    update({ captions: soundtrack.captions.map(c => c.id === id ? { ...c, ...changes } : c) });
+  };
+
+  // The video plays muted while recording so the voice can be timed to the picture
+  const handleStartRecording = async () => {
+    try {
+      const session = await startVoiceRecording();
+      recordingRef.current = session;
+      const video = videoRef.current;
+      const offset = video?.currentTime ?? 0;
+      setRecording({ session, offset });
+      if (video) {
+        video.muted = true;
+        video.play().catch(console.error);
+      }
+    } catch (error) {
+      showErrorToast("Could not use the microphone", error);
+    }
+  };
+
+  const handleStopRecording = async () => {
+    if (!recording) return;
+    const video = videoRef.current;
+    if (video) {
+      video.pause();
+      video.muted = false;
+    }
+    try {
+      const voice = await recording.session.stop();
+      update({ voiceover: { ...createAudioClip(voice, "Recorded voiceover", 'voiceover'), offset: recording.offset } });
+    } catch (error) {
+      recording.session.cancel();
+      showErrorToast("Could not save the recording", error);
+    } finally {
+      recordingRef.current = null;
+      setRecording(null);
+    }
+  };
+
+  const handleAudioFile = (kind: 'voiceover' | 'music') => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    update({ [kind]: createAudioClip(file, file.name, kind) });
+  };
+
+  const handleAddCaption = () => {
+    const caption = createCaption(Math.min(currentTime, Math.max(0, duration - 0.5)), duration);
+    update({ captions: [...soundtrack.captions, caption].sort((a, b) => a.start - b.start) });
+  };
+
+  const handleRender = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      onRendered(await renderWithSoundtrack(blob, soundtrack, { signal: controller.signal, onProgress: setProgress }));
+    } catch (error) {
+      if (!controller.signal.aborted) showErrorToast("Could not add the soundtrack", error, handleRender);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const timeInput = (value: number, onChange: (value: number) => void, title: string) => (
+    <input
+      type="number"
+      min={0}
+      max={duration}
+      step={0.1}
+      value={Number(value.toFixed(1))}
+      onChange={(e) => {
+        const v = parseFloat(e.target.value);
+        if (!Number.isNaN(v)) onChange(Math.min(duration, Math.max(0, v)));
+      }}
+      disabled={isBusy}
+      title={title}
+      className="w-16 bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="glass-panel rounded-xl p-6 w-full max-w-4xl max-h-full flex flex-col gap-4 shadow-2xl overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><AudioLines size={20} /> Sound &amp; Captions</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="relative bg-black rounded-lg overflow-hidden border border-slate-700">
+          {url && (
+            <video
+              ref={videoRef}
+              src={url}
+              controls
+              playsInline
+              onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+              className="w-full max-h-72 object-contain"
+            />
+          )}
+          {/* Roughly what the burned-in caption will look like */}
+          {activeCaption && (
+            <div className={`absolute inset-x-0 flex justify-center pointer-events-none ${soundtrack.captionPosition === 'top' ? 'top-4' : 'bottom-14'}`}>
+              <span className="bg-black/60 text-white font-semibold px-3 py-1 rounded max-w-[85%] text-center whitespace-pre-line">{activeCaption.text}</span>
+            </div>
+          )}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-3">
+            <span className="text-xs font-bold text-slate-400 uppercase flex items-center gap-2"><Mic size={14} /> Voiceover</span>
+            {recording ? (
+              <Button onClick={handleStopRecording} variant="danger" className="w-full py-2 text-sm">
+                <Square size={14} /> Stop Recording
+              </Button>
+            ) : soundtrack.voiceover ? (
+              <AudioClipControls
+                clip={soundtrack.voiceover}
+                duration={duration}
+                onChange={voiceover => update({ voiceover })}
+                onRemove={() => update({ voiceover: undefined })}
+                disabled={isBusy}
+              />
+            ) : (
+              <div className="flex gap-2">
+                <Button onClick={handleStartRecording} disabled={isBusy} variant="secondary" className="flex-1 py-2 text-sm">
+                  <Mic size={14} /> Record at {currentTime.toFixed(1)}s
+                </Button>
+                <Button onClick={() => voiceInputRef.current?.click()} disabled={isBusy} variant="secondary" className="py-2 text-sm" title="Upload a voice recording">
+                  <Upload size={14} />
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-3">
+            <span className="text-xs font-bold text-slate-400 uppercase flex items-center gap-2"><Music size={14} /> Music</span>
+            {soundtrack.music ? (
+              <AudioClipControls
+                clip={soundtrack.music}
+                duration={duration}
+                onChange={music => update({ music })}
+                onRemove={() => update({ music: undefined })}
+                disabled={isBusy}
+              />
+            ) : (
+              <Button onClick={() => musicInputRef.current?.click()} disabled={isBusy} variant="secondary" className="w-full py-2 text-sm">
+                <Upload size={14} /> Upload Music
+              </Button>
+            )}
+            <p className="text-xs text-slate-500">Music loops until the video ends.</p>
+          </div>
+        </div>
+
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700">
+          <Slider
+            label="Original video sound"
+            value={soundtrack.originalVolume}
+            display={soundtrack.originalVolume > 0 ? `${Math.round(soundtrack.originalVolume * 100)}%` : 'Muted'}
+            min={0}
+            max={1}
+            step={0.05}
+            onChange={originalVolume => update({ originalVolume })}
+            disabled={isBusy}
+            accent="purple"
+          />
+        </div>
+
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-400 uppercase flex items-center gap-2"><Captions size={14} /> Captions</span>
+            <div className="flex items-center gap-3">
+              <select
+                value={soundtrack.captionPosition}
+                onChange={(e) => update({ captionPosition: e.target.value as CaptionPosition })}
+                disabled={isBusy}
+                className="bg-slate-800 border border-slate-600 rounded px-2 py-1 text-xs text-white"
+              >
+                <option value="bottom">Bottom</option>
+                <option value="top">Top</option>
+              </select>
+              <button onClick={handleAddCaption} disabled={isBusy || duration === 0} className="text-xs text-purple-400 hover:text-purple-300 flex items-center gap-1 disabled:opacity-50">
+                <Plus size={12} /> Add at {currentTime.toFixed(1)}s
+              </button>
+            </div>
+          </div>
+          {soundtrack.captions.length === 0 && <p className="text-xs text-slate-500">Pause the video where a caption should appear and add it.</p>}
+          {soundtrack.captions.map(caption => (
+            <div key={caption.id} className="flex items-center gap-2">
+              {timeInput(caption.start, start => updateCaption(caption.id, { start: Math.min(start, caption.end) }), "Shows from")}
+              <span className="text-slate-500 text-xs">to</span>
+              {timeInput(caption.end, end => updateCaption(caption.id, { end: Math.max(end, caption.start) }), "Shows until")}
+              <input
+                type="text"
+                value={caption.text}
+                onChange={(e) => updateCaption(caption.id, { text: e.target.value })}
+                placeholder="Caption text"
+                disabled={isBusy}
+                className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-3 py-1 text-sm text-white focus:ring-2 focus:ring-purple-500 outline-none"
+              />
+              <button onClick={() => update({ captions: soundtrack.captions.filter(c => c.id !== caption.id) })} disabled={isBusy} className="p-1 text-slate-400 hover:text-red-400" title="Remove caption">
+                <Trash2 size={14} />
+              </button>
+            </div>
+          ))}
+        </div>
+
+        {isRendering ? (
+          <div className="space-y-1">
+            <div className="flex items-center gap-3">
+              <div className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-purple-500 transition-all duration-300" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <span className="text-xs text-slate-300">{Math.round(progress * 100)}%</span>
+              <button onClick={() => abortRef.current?.abort()} className="text-slate-400 hover:text-red-400" title="Cancel">
+                <XCircle size={16} />
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">Recording pauses while this tab is in the background.</p>
+          </div>
+        ) : (
+          <Button onClick={handleRender} disabled={isBusy || !hasSoundtrack(soundtrack)} className="w-full py-2 bg-purple-600 hover:bg-purple-500 border-purple-400/30 shadow-none">
+            <AudioLines size={16} /> Mix Into New Video
+          </Button>
+        )}
+        <p className="text-xs text-slate-500 -mt-2">Mixing plays the clip through once in real time. The result is saved as a new video; the original is kept.</p>
+
+        <input ref={voiceInputRef} type="file" accept="audio/*" onChange={handleAudioFile('voiceover')} className="hidden" />
+        <input ref={musicInputRef} type="file" accept="audio/*" onChange={handleAudioFile('music')} className="hidden" />
+      </div>
+    </div>
+  );
+};
+
+export default SoundtrackPanel;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { strategyLabel } from '../services/compositeStrategies';
+import Button from './ui/Button';
+import { CompositeStrategy, ImageAsset, ImageRefusal } from '../types';
+import { toDataUrl } from '../utils';
+import { AlertTriangle, ShieldAlert, MessageSquareText, Check, Columns3, X } from 'lucide-react';
+
+export interface StrategyCandidate {
+  strategy: CompositeStrategy;
+  status: 'loading' | 'done' | 'refused' | 'error';
+  image?: ImageAsset;
+  prompt: string; // What was sent to the model, recorded with the composite if it is kept
+  refusal?: ImageRefusal;
+  error?: string;
+}
+
+interface StrategyComparisonProps {
+  candidates: StrategyCandidate[];
+  onPick: (candidate: StrategyCandidate) => void;
+  onCancel: () => void;
+}
+
+// One composite per strategy, side by side; only the one the user keeps goes into the history
+const StrategyComparison: React.FC<StrategyComparisonProps> = ({ candidates, onPick, onCancel }) => (
+  <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+    <div className="glass-panel rounded-xl p-6 w-full max-w-6xl max-h-full flex flex-col gap-4 shadow-2xl overflow-y-auto">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-bold text-white flex items-center gap-2"><Columns3 size={20} /> Compare Composite Methods</h2>
+        <button onClick={onCancel} className="text-slate-400 hover:text-white" title="Close">
+          <X size={20} />
+        </button>
+      </div>
+
+      <div className={`grid grid-cols-1 gap-4 ${candidates.length > 2 ? 'md:grid-cols-3' : 'md:grid-cols-2'}`}>
+        {candidates.map(candidate => (
+          <div key={candidate.strategy} className="flex flex-col gap-2">
+            <span className="text-sm font-bold text-slate-300">{strategyLabel(candidate.strategy)}</span>
+            <div className="aspect-video rounded-lg overflow-hidden border border-slate-600 bg-slate-900 flex items-center justify-center">
+              {candidate.status === 'done' && candidate.image ? (
+                <img src={toDataUrl(candidate.image)} alt={strategyLabel(candidate.strategy)} className="w-full h-full object-contain" />
+              ) : candidate.status === 'loading' ? (
+                <span className="text-blue-300 text-xs animate-pulse">Generating...</span>
+              ) : candidate.status === 'refused' ? (
+                <span
+                  className="text-amber-300 text-xs flex flex-col items-center gap-1 p-4 text-center"
+                  title={candidate.refusal?.kind === 'text' ? candidate.refusal.text : candidate.refusal?.category}
+                >
+                  {candidate.refusal?.kind === 'blocked' ? <><ShieldAlert size={20} /> Blocked by safety filters</> : <><MessageSquareText size={20} /> The model replied with text</>}
+                </span>
+              ) : (
+                <span className="text-red-300 text-xs flex flex-col items-center gap-1 p-4 text-center">
+                  <AlertTriangle size={20} /> {candidate.error || "Failed"}
+                </span>
+              )}
+            </div>
+            <Button onClick={() => onPick(candidate)} disabled={candidate.status !== 'done'} variant="secondary" className="py-2">
+              <Check size={16} /> Keep This One
+            </Button>
+          </div>
+        ))}
+      </div>
+    </div>
+  </div>
+);
+
+export default StrategyComparison;
@@ -0,0 +1,68 @@
+import React, { useState } from 'react';
+import { COMPOSITE_STRATEGIES } from '../services/compositeStrategies';
+import { CompositeStrategy } from '../types';
+
+interface StrategyPickerProps {
+  selected: CompositeStrategy[]; // More than one runs them side by side
+  onChange: (selected: CompositeStrategy[]) => void;
+  disabled?: boolean;
+}
+
+const StrategyPicker: React.FC<StrategyPickerProps> = ({ selected, onChange, disabled }) => {
+  const [isComparing, setIsComparing] = useState(selected.length > 1);
+
+  const toggleComparing = (compare: boolean) => {
+    setIsComparing(compare);
+    onChange(compare ? COMPOSITE_STRATEGIES.map(s => s.value) : selected.slice(0, 1));
+  };
+
+  const handleClick = (strategy: CompositeStrategy) => {
+    if (!isComparing) {
+      onChange([strategy]);
+    } else if (selected.includes(strategy)) {
+      // Keep at least one selected
+      if (selected.length > 1) onChange(selected.filter(s => s !== strategy));
+    } else {
+      // Keep the list in display order
+      onChange(COMPOSITE_STRATEGIES.map(s => s.value).filter(s => s === strategy || selected.includes(s)));
+    }
+  };
+
+  return (
+    <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-slate-400 uppercase">Composite Method</span>
+        <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={isComparing}
+            onChange={(e) => toggleComparing(e.target.checked)}
+            disabled={disabled}
+            className="accent-blue-500"
+          />
+          Compare several
+        </label>
+      </div>
+      <div className="grid grid-cols-3 gap-2">
+        {COMPOSITE_STRATEGIES.map(strategy => (
+          <button
+            key={strategy.value}
+            onClick={() => handleClick(strategy.value)}
+            disabled={disabled}
+            title={strategy.description}
+            className={`px-2 py-2 rounded text-xs font-bold border transition-colors disabled:opacity-50
+              ${selected.includes(strategy.value) ? 'bg-blue-600 border-blue-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-300 hover:text-white hover:border-slate-500'}
+            `}
+          >
+            {strategy.label}
+          </button>
+        ))}
+      </div>
+      {!isComparing && (
+        <p className="text-xs text-slate-500">{COMPOSITE_STRATEGIES.find(s => s.value === selected[0])?.description}</p>
+      )}
+    </div>
+  );
+};
+
+export default StrategyPicker;
@@ -0,0 +1,382 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { clipRange, createClip, exportTimeline, extendClip, generateShot, shotSettings, trimClip, ExportClip } from '../services/timeline';
+import { VideoJobOptions } from '../services/videoJobs';
+import { listProjects } from '../services/projectStore';
+import { showErrorToast } from '../services/notifications';
+import Button from './ui/Button';
+import Card from './ui/Card';
+import { CompositeRecord, ImageAsset, ProjectSummary, TimelineClip, VideoRecord, VideoSettings } from '../types';
+import { downloadBlob, loadVideoBlob, slugify, toDataUrl } from '../utils';
+import { Film, ChevronLeft, ChevronRight, Trash2, FastForward, Plus, Download, X, XCircle } from 'lucide-react';
+
+interface TimelineProps {
+  projectId: string;
+  locationName: string;
+  videos: VideoRecord[];
+  timeline: TimelineClip[];
+  composites: CompositeRecord[]; // Offered as starting images for new shots
+  onTimelineChange: (update: (timeline: TimelineClip[]) => TimelineClip[]) => void;
+  onVideoGenerated: (video: VideoRecord) => void;
+}
+
+interface ShotJob {
+  id: string;
+  label: string;
+  progress: number; // 0-1
+}
+
+const ClipVideo: React.FC<{ blob: Blob }> = ({ blob }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+  return url ? <video src={url} className="w-full h-full object-cover" muted loop playsInline onMouseEnter={e => e.currentTarget.play()} onMouseLeave={e => e.currentTarget.pause()} /> : null;
+};
+
+const formatSeconds = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+// Turns the project's videos into one short: shots are added, extended, reordered and trimmed here,
+// then exported as a single file.
+const Timeline: React.FC<TimelineProps> = ({ projectId, locationName, videos, timeline, composites, onTimelineChange, onVideoGenerated }) => {
+  const [durations, setDurations] = useState<Record<string, number>>({});
+  const [jobs, setJobs] = useState<ShotJob[]>([]);
+  const [extendingId, setExtendingId] = useState<string | null>(null);
+  const [extendPrompt, setExtendPrompt] = useState('');
+  const [isAddingShot, setIsAddingShot] = useState(false);
+  const [shotImage, setShotImage] = useState<ImageAsset | null>(null);
+  const [shotPrompt, setShotPrompt] = useState('');
+  const [otherProjects, setOtherProjects] = useState<ProjectSummary[]>([]);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  const exportAbortRef = useRef<AbortController | null>(null);
+  const measuredRef = useRef(new Set<string>());
+
+  const videoFor = (clip: TimelineClip) => videos.find(v => v.id === clip.videoId);
+  const unusedVideos = videos.filter(v => !timeline.some(c => c.videoId === v.id));
+  const totalSeconds = timeline.reduce((sum, clip) => {
+    const duration = durations[clip.videoId];
+    if (duration === undefined) return sum;
+    const { start, end } = clipRange(clip, duration);
+    return sum + end - start;
+  }, 0);
+
+  // Stop generating and exporting when we leave the step
+  useEffect(() => () => {
+    controllersRef.current.forEach(controller => controller.abort());
+    exportAbortRef.current?.abort();
+  }, []);
+
+  // Trimming needs each video's length, which is only known once it has been loaded
+  useEffect(() => {
+    const pending = videos.filter(v => timeline.some(c => c.videoId === v.id) && !measuredRef.current.has(v.id));
+    pending.forEach(async video => {
+      measuredRef.current.add(video.id);
+      try {
+        const { duration, release } = await loadVideoBlob(video.blob);
+        release();
+        setDurations(d => ({ ...d, [video.id]: duration }));
+      } catch (error) {
+        console.error("Could not read video length:", error);
+      }
+    });
+  }, [videos, timeline]);
+
+  useEffect(() => {
+    if (!isAddingShot) return;
+    listProjects()
+      .then(projects => setOtherProjects(projects.filter(p => p.id !== projectId && p.thumbnail)))
+      .catch(error => console.error("Failed to list projects:", error));
+  }, [isAddingShot, projectId]);
+
+  const updateClip = (id: string, update: (clip: TimelineClip) => TimelineClip) => {
+    onTimelineChange(t => t.map(c => c.id === id ? update(c) : c));
+  };
+
+  const moveClip = (id: string, offset: -1 | 1) => {
+    onTimelineChange(t => {
+      const idx = t.findIndex(c => c.id === id);
+      const target = idx + offset;
+      if (idx < 0 || target < 0 || target >= t.length) return t;
+      const next = [...t];
+      [next[idx], next[target]] = [next[target], next[idx]];
+      return next;
+    });
+  };
+
+  // Generates a shot in the background; several can run at once
+  const runShot = async (
+    label: string,
+    prompt: string,
+    settings: VideoSettings,
+    run: (options: VideoJobOptions) => Promise<Blob>,
+    place: (timeline: TimelineClip[], clip: TimelineClip) => TimelineClip[]
+  ) => {
+    const id = crypto.randomUUID();
+    const controller = new AbortController();
+    controllersRef.current.set(id, controller);
+    setJobs(j => [...j, { id, label, progress: 0 }]);
+    try {
+      const blob = await run({
+        signal: controller.signal,
+        onProgress: (p) => setJobs(j => j.map(job => job.id === id ? { ...job, progress: p.progress } : job)),
+      });
+      const video: VideoRecord = { id: crypto.randomUUID(), blob, prompt, aspectRatio: settings.aspectRatio, settings, createdAt: Date.now() };
+      onVideoGenerated(video);
+      onTimelineChange(t => place(t, createClip(video.id)));
+    } catch (error) {
+      if (!controller.signal.aborted) showErrorToast(`${label} failed`, error);
+    } finally {
+      controllersRef.current.delete(id);
+      setJobs(j => j.filter(job => job.id !== id));
+    }
+  };
+
+  const handleExtend = (clip: TimelineClip) => {
+    const video = videoFor(clip);
+    if (!video) return;
+    const prompt = extendPrompt;
+    setExtendingId(null);
+    setExtendPrompt('');
+    runShot(
+      "Extension",
+      prompt,
+      shotSettings(video),
+      options => extendClip(clip, video, prompt, options),
+      // Right after the clip it continues, wherever that has moved to meanwhile
+      (t, extension) => {
+        const idx = t.findIndex(c => c.id === clip.id);
+        return idx < 0 ? [...t, extension] : [...t.slice(0, idx + 1), extension, ...t.slice(idx + 1)];
+      }
+    );
+  };
+
+  const handleAddShot = () => {
+    if (!shotImage) return;
+    const image = shotImage;
+    const prompt = shotPrompt;
+    // New shots match the look of the first one so the export doesn't letterbox
+    const first = timeline.length > 0 ? videoFor(timeline[0]) : undefined;
+    const settings = shotSettings(first);
+    setIsAddingShot(false);
+    setShotImage(null);
+    setShotPrompt('');
+    runShot("New shot", prompt, settings, options => generateShot(image, prompt, settings, options), (t, shot) => [...t, shot]);
+  };
+
+  const handleCancelJob = (id: string) => {
+    controllersRef.current.get(id)?.abort();
+  };
+
+  const handleExport = async () => {
+    const clips = timeline
+      .map(clip => ({ clip, video: videoFor(clip) }))
+      .filter((c): c is ExportClip => !!c.video);
+    if (clips.length === 0) return;
+    const controller = new AbortController();
+    exportAbortRef.current = controller;
+    setExportProgress(0);
+    try {
+      const blob = await exportTimeline(clips, { signal: controller.signal, onProgress: setExportProgress });
+      const extension = blob.type.includes('webm') ? 'webm' : 'mp4';
+      downloadBlob(blob, `${slugify(locationName) || 'robo-ai'}-timeline.${extension}`);
+    } catch (error) {
+      if (!controller.signal.aborted) showErrorToast("Export failed", error, handleExport);
+    } finally {
+      if (exportAbortRef.current === controller) {
+        exportAbortRef.current = null;
+        setExportProgress(null);
+      }
+    }
+  };
+
+  const isExporting = exportProgress !== null;
+
+  return (
+    <Card className="mt-8 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2"><Film size={20} className="text-purple-400" /> Timeline</h3>
+        <span className="text-xs text-slate-400">
+          {timeline.length} {timeline.length === 1 ? 'shot' : 'shots'}{totalSeconds > 0 && ` · ${formatSeconds(totalSeconds)}`}
+        </span>
+      </div>
+
+      {timeline.length === 0 ? (
+        <p className="text-sm text-slate-500">Add generated videos below to sequence them into one short.</p>
+      ) : (
+        <div className="flex gap-3 overflow-x-auto pb-2">
+          {timeline.map((clip, idx) => {
+            const video = videoFor(clip);
+            const duration = durations[clip.videoId];
+            const range = duration !== undefined ? clipRange(clip, duration) : null;
+            return (
+              <div key={clip.id} className="shrink-0 w-56 bg-slate-800/50 rounded-lg border border-slate-700 p-2 space-y-2">
+                <div className="aspect-video rounded overflow-hidden bg-slate-900">
+                  {video && <ClipVideo blob={video.blob} />}
+                </div>
+                <div className="flex items-center justify-between text-xs">
+                  <span className="font-bold text-slate-300">Shot {idx + 1}</span>
+                  <div className="flex items-center">
+                    <button onClick={() => moveClip(clip.id, -1)} disabled={idx === 0 || isExporting} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" title="Move Earlier">
+                      <ChevronLeft size={14} />
+                    </button>
+                    <button onClick={() => moveClip(clip.id, 1)} disabled={idx === timeline.length - 1 || isExporting} className="p-1 text-slate-400 hover:text-white disabled:opacity-30" title="Move Later">
+                      <ChevronRight size={14} />
+                    </button>
+                    <button onClick={() => setExtendingId(extendingId === clip.id ? null : clip.id)} disabled={!video || isExporting} className="p-1 text-slate-400 hover:text-purple-300 disabled:opacity-30" title="Extend from the last frame">
+                      <FastForward size={14} />
+                    </button>
+                    <button onClick={() => onTimelineChange(t => t.filter(c => c.id !== clip.id))} disabled={isExporting} className="p-1 text-slate-400 hover:text-red-400 disabled:opacity-30" title="Remove from timeline">
+                      <Trash2 size={14} />
+                    </button>
+                  </div>
+                </div>
+                {video?.prompt && <p className="text-xs text-slate-500 truncate" title={video.prompt}>{video.prompt}</p>}
+                {range && duration !== undefined && (
+                  <div className="grid grid-cols-2 gap-2">
+                    {([['In', range.start, (v: number) => trimClip(clip, duration, v, range.end)], ['Out', range.end, (v: number) => trimClip(clip, duration, range.start, v)]] as const).map(([label, value, trim]) => (
+                      <label key={label} className="text-[10px] text-slate-400 uppercase">
+                        {label}
+                        <input
+                          type="number"
+                          min={0}
+                          max={duration}
+                          step={0.1}
+                          value={Number(value.toFixed(1))}
+                          onChange={(e) => {
+                            const v = parseFloat(e.target.value);
+                            if (!Number.isNaN(v)) updateClip(clip.id, () => trim(v));
+                          }}
+                          disabled={isExporting}
+                          className="w-full bg-slate-800 border border-slate-600 rounded px-2 py-1 text-sm text-white normal-case"
+                        />
+                      </label>
+                    ))}
+                  </div>
+                )}
+                {extendingId === clip.id && (
+                  <div className="space-y-2">
+                    <textarea
+                      value={extendPrompt}
+                      onChange={(e) => setExtendPrompt(e.target.value)}
+                      placeholder="What happens next?"
+                      className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white h-16 resize-none focus:ring-2 focus:ring-purple-500 outline-none"
+                    />
+                    <Button onClick={() => handleExtend(clip)} className="w-full py-1.5 text-sm bg-purple-600 hover:bg-purple-500 border-purple-400/30 shadow-none">
+                      <FastForward size={14} /> Extend
+                    </Button>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {jobs.length > 0 && (
+        <ul className="space-y-2">
+          {jobs.map(job => (
+            <li key={job.id} className="flex items-center gap-3 text-xs text-slate-300">
+              <span className="w-24 shrink-0">{job.label}</span>
+              <div className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-purple-500 transition-all duration-500" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+              </div>
+              <span className="w-10 text-right">{Math.round(job.progress * 100)}%</span>
+              <button onClick={() => handleCancelJob(job.id)} className="text-slate-400 hover:text-red-400" title="Cancel">
+                <XCircle size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {unusedVideos.length > 0 && (
+        <div>
+          <p className="text-xs text-slate-400 mb-1">Saved videos not on the timeline</p>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {unusedVideos.map(video => (
+              <button
+                key={video.id}
+                onClick={() => onTimelineChange(t => [...t, createClip(video.id)])}
+                disabled={isExporting}
+                className="relative shrink-0 w-24 aspect-video rounded overflow-hidden border-2 border-transparent hover:border-purple-500 transition-colors"
+                title={video.prompt || "Add to timeline"}
+              >
+                <ClipVideo blob={video.blob} />
+                <span className="absolute inset-0 flex items-center justify-center bg-black/40 text-white"><Plus size={16} /></span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {isAddingShot && (
+        <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-bold text-slate-400 uppercase">New Shot</span>
+            <button onClick={() => setIsAddingShot(false)} className="text-slate-400 hover:text-white" title="Close">
+              <X size={16} />
+            </button>
+          </div>
+          {([["This project", composites.map(c => ({ id: c.id, image: c.image, title: c.prompt || c.kind }))],
+             ["Other projects", otherProjects.map(p => ({ id: p.id, image: p.thumbnail!, title: p.name }))]] as const).map(([heading, choices]) => choices.length > 0 && (
+            <div key={heading}>
+              <p className="text-xs text-slate-400 mb-1">{heading}</p>
+              <div className="flex gap-2 overflow-x-auto pb-1">
+                {choices.map(choice => (
+                  <button
+                    key={choice.id}
+                    onClick={() => setShotImage(choice.image)}
+                    className={`shrink-0 w-20 h-12 rounded overflow-hidden border-2 transition-colors ${shotImage === choice.image ? 'border-purple-500' : 'border-transparent hover:border-slate-500'}`}
+                    title={choice.title}
+                  >
+                    <img src={toDataUrl(choice.image)} alt={choice.title} className="w-full h-full object-cover" />
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+          <textarea
+            value={shotPrompt}
+            onChange={(e) => setShotPrompt(e.target.value)}
+            placeholder="Describe the motion for this shot..."
+            className="w-full bg-slate-800 border border-slate-600 rounded p-2 text-sm text-white h-16 resize-none focus:ring-2 focus:ring-purple-500 outline-none"
+          />
+          <Button onClick={handleAddShot} disabled={!shotImage} className="w-full py-2 text-sm bg-purple-600 hover:bg-purple-500 border-purple-400/30 shadow-none">
+            <Plus size={14} /> Generate Shot
+          </Button>
+        </div>
+      )}
+
+      <div className="flex gap-3">
+        {!isAddingShot && (
+          <Button onClick={() => setIsAddingShot(true)} disabled={isExporting} variant="secondary" className="flex-1 py-2 text-sm">
+            <Plus size={16} /> Add Shot
+          </Button>
+        )}
+        {isExporting ? (
+          <div className="flex-1 space-y-1">
+            <div className="flex items-center gap-3">
+              <div className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-purple-500 transition-all duration-300" style={{ width: `${Math.round(exportProgress * 100)}%` }} />
+              </div>
+              <span className="text-xs text-slate-300">{Math.round(exportProgress * 100)}%</span>
+              <button onClick={() => exportAbortRef.current?.abort()} className="text-slate-400 hover:text-red-400" title="Cancel export">
+                <XCircle size={16} />
+              </button>
+            </div>
+            <p className="text-xs text-slate-500">The export plays in real time and pauses while this tab is in the background.</p>
+          </div>
+        ) : (
+          <Button onClick={handleExport} disabled={timeline.length === 0} className="flex-1 py-2 text-sm">
+            <Download size={16} /> Export Video
+          </Button>
+        )}
+      </div>
+      {isExporting && <p className="text-xs text-slate-500">Exporting plays the sequence through once, so it takes as long as the video runs.</p>}
+    </Card>
+  );
+};
+
+export default Timeline;
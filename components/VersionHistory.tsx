@@ -0,0 +1,111 @@
+import React from 'react';
+import { CompositeRecord } from '../types';
+import { strategyLabel } from '../services/compositeStrategies';
+import { toDataUrl } from '../utils';
+import { Undo2, Redo2, GitBranch, Columns2 } from 'lucide-react';
+
+interface VersionHistoryProps {
+  versions: CompositeRecord[]; // In creation order
+  currentId: string | null;
+  compareId: string | null;
+  canUndo: boolean;
+  canRedo: boolean;
+  onSelect: (id: string) => void;
+  onCompare: (id: string | null) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+export const versionLabel = (versions: CompositeRecord[], id: string | null) => {
+  const idx = versions.findIndex(v => v.id === id);
+  return idx === -1 ? '' : `v${idx + 1}`;
+};
+
+// Ids from the given version back up to its root, used to highlight the active branch
+const ancestryOf = (versions: CompositeRecord[], id: string | null): Set<string> => {
+  const byId = new Map(versions.map(v => [v.id, v]));
+  const ancestry = new Set<string>();
+  let node = id ? byId.get(id) : undefined;
+  while (node && !ancestry.has(node.id)) {
+    ancestry.add(node.id);
+    node = node.parentId ? byId.get(node.parentId) : undefined;
+  }
+  return ancestry;
+};
+
+const VersionHistory: React.FC<VersionHistoryProps> = ({
+  versions,
+  currentId,
+  compareId,
+  canUndo,
+  canRedo,
+  onSelect,
+  onCompare,
+  onUndo,
+  onRedo,
+}) => {
+  if (versions.length === 0) return null;
+
+  const activeBranch = ancestryOf(versions, currentId);
+
+  return (
+    <div className="bg-slate-800/50 p-3 rounded-lg border border-slate-700 space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-xs font-bold text-slate-400 uppercase">History</span>
+        <div className="flex items-center gap-1">
+          <button onClick={onUndo} disabled={!canUndo} className="p-1.5 rounded text-slate-300 hover:text-white hover:bg-slate-700 disabled:opacity-30" title="Undo (Ctrl+Z)">
+            <Undo2 size={16} />
+          </button>
+          <button onClick={onRedo} disabled={!canRedo} className="p-1.5 rounded text-slate-300 hover:text-white hover:bg-slate-700 disabled:opacity-30" title="Redo (Ctrl+Shift+Z)">
+            <Redo2 size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2 overflow-x-auto pb-1">
+        {versions.map((version, idx) => {
+          const isCurrent = version.id === currentId;
+          const isCompared = version.id === compareId;
+          const parentLabel = versionLabel(versions, version.parentId);
+          // A version whose parent isn't the one right before it started a new branch
+          const isBranch = !!version.parentId && versions[idx - 1]?.id !== version.parentId;
+          const tooltip = [version.strategy && strategyLabel(version.strategy), version.prompt].filter(Boolean).join(': ') || version.kind;
+
+          return (
+            <div key={version.id} className="relative shrink-0 group">
+              <button
+                onClick={() => onSelect(version.id)}
+                title={tooltip}
+                className={`block w-20 h-14 rounded overflow-hidden border-2 transition-all
+                  ${isCurrent ? 'border-blue-500' : isCompared ? 'border-amber-400' : 'border-transparent hover:border-slate-500'}
+                  ${activeBranch.has(version.id) ? '' : 'opacity-50'}
+                `}
+              >
+                <img src={toDataUrl(version.image)} alt={`Version ${idx + 1}`} className="w-full h-full object-cover" />
+              </button>
+              <div className="flex items-center justify-between text-[10px] text-slate-400 mt-0.5 px-0.5">
+                <span className={isCurrent ? 'text-blue-400 font-bold' : ''}>v{idx + 1}</span>
+                {parentLabel && (
+                  <span className="flex items-center gap-0.5" title={`Edited from ${parentLabel}`}>
+                    {isBranch && <GitBranch size={10} />}&larr;{parentLabel}
+                  </span>
+                )}
+              </div>
+              {!isCurrent && (
+                <button
+                  onClick={() => onCompare(isCompared ? null : version.id)}
+                  className={`absolute top-1 right-1 p-0.5 rounded bg-black/70 text-white transition-opacity ${isCompared ? 'opacity-100' : 'opacity-0 group-hover:opacity-100'}`}
+                  title={isCompared ? "Stop comparing" : "Compare with current"}
+                >
+                  <Columns2 size={12} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VersionHistory;
@@ -1,38 +1,209 @@
-import React, { useState } from 'react';
-import { generateVeoVideo } from '../services/geminiService';
+import React, { useState, useRef, useEffect } from 'react';
+import { runVideoJob, resumeVideoJob, getPendingVideoJobFor, clearPendingVideoJob, VideoJobError, VideoJobOptions } from '../services/videoJobs';
+import { classifyError } from '../services/aiErrors';
+import { DEFAULT_VIDEO_SETTINGS, VIDEO_MODELS, VIDEO_RESOLUTIONS, VIDEO_DURATIONS, PERSON_GENERATION_OPTIONS, MAX_TAKES, FULL_HD_DURATION_SECONDS, updateVideoSettings, validateReferenceImages } from '../services/videoPresets';
 import Button from './ui/Button';
 import Card from './ui/Card';
-import { Video, Download, RotateCcw, AlertTriangle } from 'lucide-react';
+import { DEFAULT_LOCAL_MOTION, loadMotionLayers, renderLocalAnimation, MotionLayers } from '../services/localAnimation';
+import { describeSubjects } from '../services/promptPresets';
+import VideoGuidancePanel from './VideoGuidancePanel';
+import PromptPresetPicker from './PromptPresetPicker';
+import PromptEnhancer from './PromptEnhancer';
+import LocalMotionPanel from './LocalMotionPanel';
+import VideoExportPanel from './VideoExportPanel';
+import SoundtrackPanel from './SoundtrackPanel';
+import { CompositeRecord, ImageAsset, LocalMotionSettings, VideoGuidance, VideoRecord, VideoSettings } from '../types';
+import { downloadBlob, slugify } from '../utils';
+import { Video, Download, RotateCcw, AlertTriangle, XCircle, ChevronDown, ChevronUp, Dices, Move3d, FileImage, AudioLines } from 'lucide-react';
 
 interface VideoAnimatorProps {
-  sourceImage: string; // Base64
+  projectId: string;
+  locationName: string;
+  sourceImage: ImageAsset | null; // Null when resuming a job after a reload
+  history: CompositeRecord[]; // Editor versions, offered as end frames and references
+  savedVideos: VideoRecord[];
+  onVideoGenerated: (video: VideoRecord) => void;
+  onEditFrame: (frame: ImageAsset, label: string) => void; // Sends a still back to the editor
   onBack: () => void;
 }
 
-const VideoAnimator: React.FC<VideoAnimatorProps> = ({ sourceImage, onBack }) => {
+type AnimationMode = 'veo' | 'local';
+
+const SOUNDTRACK_SUFFIX = '(with soundtrack)';
+
+// What a finished job is recorded with, besides the video itself
+type VideoDetails = Pick<VideoRecord, 'prompt' | 'aspectRatio' | 'settings' | 'motion'>;
+
+interface CachedLayers {
+  image: ImageAsset;
+  separateSubject: boolean;
+  layers: Promise<MotionLayers>;
+}
+
+const VideoAnimator: React.FC<VideoAnimatorProps> = ({ projectId, locationName, sourceImage, history, savedVideos, onVideoGenerated, onEditFrame, onBack }) => {
+  // Local motion renders in the browser, for anyone without access to the video model
+  const [mode, setMode] = useState<AnimationMode>('veo');
+  const [motion, setMotion] = useState<LocalMotionSettings>(DEFAULT_LOCAL_MOTION);
   const [prompt, setPrompt] = useState('');
-  const [aspectRatio, setAspectRatio] = useState<"16:9" | "9:16">("16:9");
+  const [settings, setSettings] = useState<VideoSettings>(DEFAULT_VIDEO_SETTINGS);
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [guidance, setGuidance] = useState<VideoGuidance>({});
   const [isGenerating, setIsGenerating] = useState(false);
-  const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  // Every take from the latest generation; the selected one is what gets downloaded
+  const [takes, setTakes] = useState<Blob[]>(savedVideos.length > 0 ? [savedVideos[savedVideos.length - 1].blob] : []);
+  const [selectedTake, setSelectedTake] = useState(0);
+  const [takeUrls, setTakeUrls] = useState<string[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [elapsedMs, setElapsedMs] = useState(0);
+  const [isResumed, setIsResumed] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showSoundtrack, setShowSoundtrack] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+  // The subject cutout costs a model call, so it is reused until the image changes
+  const layersRef = useRef<CachedLayers | null>(null);
 
-  const handleGenerate = async () => {
+  // Object URLs for playback, released whenever the takes change or we unmount
+  useEffect(() => {
+    const urls = takes.map(blob => URL.createObjectURL(blob));
+    setTakeUrls(urls);
+    return () => urls.forEach(url => URL.revokeObjectURL(url));
+  }, [takes]);
+
+  const changeSettings = (changes: Partial<VideoSettings>) => setSettings(current => updateVideoSettings(current, changes));
+
+  const trackJob = async (run: (options: VideoJobOptions) => Promise<Blob[]>, details: VideoDetails) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsGenerating(true);
+    setError(null);
+    setTakes([]);
+    setSelectedTake(0);
+    setProgress(0);
+    setElapsedMs(0);
     try {
-       const url = await generateVeoVideo(sourceImage, prompt, aspectRatio);
-       setVideoUrl(url);
+       const videos = await run({
+         signal: controller.signal,
+         onProgress: (p) => {
+           setProgress(p.progress);
+           setElapsedMs(p.elapsedMs);
+         },
+       });
+       setTakes(videos);
+       // Every take is kept with the project; picking one here only chooses what to download
+       videos.forEach((blob, idx) => onVideoGenerated({
+         id: crypto.randomUUID(),
+         blob,
+         ...details,
+         take: videos.length > 1 ? idx + 1 : undefined,
+         createdAt: Date.now(),
+       }));
     } catch (error: any) {
+       if (controller.signal.aborted) return; // Cancelled or unmounted; nothing to report
        console.error(error);
        const msg = error?.message || "Unknown error";
-       if (msg.includes("select")) {
-         alert("You must select a billing project/API Key in the popup to continue.");
+       if (error instanceof VideoJobError) {
+         setError(msg);
+       } else if (msg.includes("select")) {
+         setError("You must select a billing project/API Key in the popup to continue, or switch to Local Motion, which needs no video model access.");
        } else {
-         alert("Video generation failed. Please try again.");
+         setError(`Video generation failed: ${classifyError(error).message}`);
        }
     } finally {
-       setIsGenerating(false);
+       if (abortRef.current === controller) {
+         abortRef.current = null;
+         setIsGenerating(false);
+         setIsResumed(false);
+       }
     }
   };
 
+  // Pick up a job this project still had running when the page was last closed.
+  // Unmounting only stops polling; the job stays persisted so it can be resumed again.
+  useEffect(() => {
+    const pending = getPendingVideoJobFor(projectId);
+    if (pending) {
+      setPrompt(pending.prompt);
+      setSettings(pending.settings);
+      setIsResumed(true);
+      trackJob(options => resumeVideoJob(pending, options), { prompt: pending.prompt, aspectRatio: pending.settings.aspectRatio, settings: pending.settings });
+    }
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const guidanceError = guidance.referenceImages ? validateReferenceImages(guidance.referenceImages) : null;
+
+  const getMotionLayers = (image: ImageAsset, separateSubject: boolean) => {
+    const cached = layersRef.current;
+    if (cached && cached.image === image && cached.separateSubject === separateSubject) return cached.layers;
+    const layers = loadMotionLayers(image, separateSubject);
+    layersRef.current = { image, separateSubject, layers };
+    // Don't keep a failed cutout around; the next render tries again
+    layers.catch(() => { if (layersRef.current?.layers === layers) layersRef.current = null; });
+    return layers;
+  };
+
+  const handleGenerate = () => {
+    if (!sourceImage) return;
+    if (mode === 'local') {
+      const jobMotion = motion;
+      trackJob(async ({ signal, onProgress }) => {
+        const layers = await getMotionLayers(sourceImage, jobMotion.parallax > 0);
+        const durationMs = jobMotion.durationSeconds * 1000;
+        const video = await renderLocalAnimation(layers, jobMotion, {
+          signal,
+          onProgress: (p) => onProgress?.({ elapsedMs: p * durationMs, progress: p, pollCount: 0 }),
+        });
+        return [video];
+      }, { prompt: 'Local camera motion', aspectRatio: jobMotion.aspectRatio, settings: null, motion: jobMotion });
+      return;
+    }
+    if (guidanceError) return;
+    trackJob(options => runVideoJob(sourceImage, prompt, settings, guidance, { ...options, projectId }), { prompt, aspectRatio: settings.aspectRatio, settings });
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    // Another project's stored job is left for that project to resume
+    if (getPendingVideoJobFor(projectId)) clearPendingVideoJob();
+  };
+
+  const exportName = () => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const takeSuffix = takes.length > 1 ? `-take${selectedTake + 1}` : '';
+    return `${slugify(locationName) || 'robo-ai'}-${timestamp}${takeSuffix}`;
+  };
+
+  const handleDownload = () => {
+    const videoBlob = takes[selectedTake];
+    if (!videoBlob) return;
+    const extension = videoBlob.type.includes('webm') ? 'webm' : 'mp4';
+    downloadBlob(videoBlob, `${exportName()}.${extension}`);
+  };
+
+  // The mix is kept as a video of its own next to the silent original, and shown in its place
+  const handleSoundtrackRendered = (video: Blob) => {
+    const source = savedVideos.find(v => v.blob === takes[selectedTake]);
+    const sourcePrompt = source?.prompt || prompt;
+    onVideoGenerated({
+      id: crypto.randomUUID(),
+      blob: video,
+      prompt: sourcePrompt.endsWith(SOUNDTRACK_SUFFIX) ? sourcePrompt : `${sourcePrompt} ${SOUNDTRACK_SUFFIX}`.trim(),
+      aspectRatio: source?.aspectRatio ?? settings.aspectRatio,
+      settings: source?.settings ?? null,
+      motion: source?.motion,
+      createdAt: Date.now(),
+    });
+    setTakes([video]);
+    setSelectedTake(0);
+    setShowSoundtrack(false);
+  };
+
+  const formatElapsed = (ms: number) => {
+    const totalSeconds = Math.floor(ms / 1000);
+    return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+  };
+
   return (
     <div className="max-w-4xl mx-auto">
        <button onClick={onBack} className="text-slate-400 hover:text-white mb-4 flex items-center gap-2">
@@ -40,82 +211,306 @@ const VideoAnimator: React.FC<VideoAnimatorProps> = ({ sourceImage, onBack }) =>
        </button>
 
        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          <Card title="Veo Animation Settings">
+          <Card title="Animation Settings">
              <div className="space-y-6">
-                <div>
-                   <label className="block text-sm font-medium text-slate-300 mb-2">Prompt</label>
-                   <textarea
-                      value={prompt}
-                      onChange={(e) => setPrompt(e.target.value)}
-                      placeholder="Describe the animation: 'A cinematic slow pan to the right', 'The person waves at the camera', 'Leaves blowing in the wind'."
-                      className="w-full bg-slate-800 border border-slate-600 rounded-lg p-3 text-white h-32 focus:ring-2 focus:ring-purple-500 outline-none resize-none"
-                   />
-                </div>
-
-                <div>
-                   <label className="block text-sm font-medium text-slate-300 mb-2">Aspect Ratio</label>
-                   <div className="flex gap-4">
-                      <button 
-                        onClick={() => setAspectRatio("16:9")}
-                        className={`px-4 py-2 rounded border ${aspectRatio === "16:9" ? "bg-purple-600 border-purple-500 text-white" : "bg-slate-800 border-slate-600 text-slate-400"}`}
+                <div className="flex gap-2">
+                   {([['veo', "Veo (AI Video)"], ['local', "Local Motion"]] as const).map(([value, label]) => (
+                      <button
+                        key={value}
+                        onClick={() => setMode(value)}
+                        disabled={isGenerating}
+                        className={`flex-1 px-3 py-2 rounded text-sm font-bold border ${mode === value ? "bg-purple-600 border-purple-500 text-white" : "bg-slate-800 border-slate-600 text-slate-400 hover:text-white"}`}
                       >
-                        Landscape (16:9)
+                        {label}
                       </button>
-                      <button 
-                        onClick={() => setAspectRatio("9:16")}
-                        className={`px-4 py-2 rounded border ${aspectRatio === "9:16" ? "bg-purple-600 border-purple-500 text-white" : "bg-slate-800 border-slate-600 text-slate-400"}`}
+                   ))}
+                </div>
+
+                {mode === 'veo' ? (
+                   <>
+                   <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Prompt</label>
+                      <div className="mb-2">
+                        <PromptPresetPicker
+                          category="animate"
+                          variables={{ location: locationName, subject: describeSubjects(1) }}
+                          prompt={prompt}
+                          onApply={setPrompt}
+                          disabled={isGenerating}
+                          accent="purple"
+                        />
+                      </div>
+                      <textarea
+                         value={prompt}
+                         onChange={(e) => setPrompt(e.target.value)}
+                         placeholder="Describe the animation: 'A cinematic slow pan to the right', 'The person waves at the camera', 'Leaves blowing in the wind'."
+                         className="w-full bg-slate-800 border border-slate-600 rounded-lg p-3 text-white h-32 focus:ring-2 focus:ring-purple-500 outline-none resize-none"
+                      />
+                      <div className="mt-2">
+                        <PromptEnhancer
+                          prompt={prompt}
+                          image={sourceImage}
+                          style="video"
+                          onAccept={setPrompt}
+                          disabled={isGenerating}
+                          accent="purple"
+                        />
+                      </div>
+                   </div>
+
+                   <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Frames &amp; References</label>
+                      <VideoGuidancePanel
+                        sourceImage={sourceImage}
+                        history={history}
+                        guidance={guidance}
+                        onChange={setGuidance}
+                        disabled={isGenerating}
+                      />
+                   </div>
+
+                   <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Model</label>
+                      <div className="flex gap-4">
+                         {VIDEO_MODELS.map(model => (
+                            <button
+                              key={model.value}
+                              onClick={() => changeSettings({ model: model.value })}
+                              title={model.description}
+                              className={`px-4 py-2 rounded border ${settings.model === model.value ? "bg-purple-600 border-purple-500 text-white" : "bg-slate-800 border-slate-600 text-slate-400"}`}
+                            >
+                              {model.label}
+                            </button>
+                         ))}
+                      </div>
+                   </div>
+
+                   <div>
+                      <label className="block text-sm font-medium text-slate-300 mb-2">Aspect Ratio</label>
+                      <div className="flex gap-4">
+                         <button 
+                           onClick={() => changeSettings({ aspectRatio: "16:9" })}
+                           className={`px-4 py-2 rounded border ${settings.aspectRatio === "16:9" ? "bg-purple-600 border-purple-500 text-white" : "bg-slate-800 border-slate-600 text-slate-400"}`}
+                         >
+                           Landscape (16:9)
+                         </button>
+                         <button 
+                           onClick={() => changeSettings({ aspectRatio: "9:16" })}
+                           className={`px-4 py-2 rounded border ${settings.aspectRatio === "9:16" ? "bg-purple-600 border-purple-500 text-white" : "bg-slate-800 border-slate-600 text-slate-400"}`}
+                         >
+                           Portrait (9:16)
+                         </button>
+                      </div>
+                   </div>
+
+                   <div className="grid grid-cols-3 gap-3">
+                      <label className="flex flex-col gap-1 text-xs text-slate-400">
+                         Resolution
+                         <select
+                           value={settings.resolution}
+                           onChange={(e) => changeSettings({ resolution: e.target.value as VideoSettings['resolution'] })}
+                           className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+                         >
+                            {VIDEO_RESOLUTIONS.map(r => <option key={r.value} value={r.value}>{r.label}</option>)}
+                         </select>
+                      </label>
+                      <label className="flex flex-col gap-1 text-xs text-slate-400">
+                         Duration
+                         <select
+                           value={settings.durationSeconds}
+                           onChange={(e) => changeSettings({ durationSeconds: parseInt(e.target.value, 10) })}
+                           className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+                         >
+                            {VIDEO_DURATIONS.map(d => <option key={d.value} value={d.value}>{d.label}</option>)}
+                         </select>
+                      </label>
+                      <label className="flex flex-col gap-1 text-xs text-slate-400">
+                         Takes
+                         <select
+                           value={settings.numberOfVideos}
+                           onChange={(e) => changeSettings({ numberOfVideos: parseInt(e.target.value, 10) })}
+                           className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+                         >
+                            {Array.from({ length: MAX_TAKES }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                         </select>
+                      </label>
+                   </div>
+                   {settings.resolution === '1080p' && (
+                      <p className="text-xs text-slate-500 -mt-4">1080p videos are always {FULL_HD_DURATION_SECONDS} seconds long. Pick 720p for shorter clips.</p>
+                   )}
+
+                   <div>
+                      <button
+                        onClick={() => setShowAdvanced(v => !v)}
+                        className="text-sm text-slate-400 hover:text-white flex items-center gap-1"
                       >
-                        Portrait (9:16)
+                         {showAdvanced ? <ChevronUp size={14} /> : <ChevronDown size={14} />} Advanced
                       </button>
+                      {showAdvanced && (
+                         <div className="mt-3 space-y-3">
+                            <label className="flex flex-col gap-1 text-xs text-slate-400">
+                               Negative prompt
+                               <input
+                                 type="text"
+                                 value={settings.negativePrompt}
+                                 onChange={(e) => changeSettings({ negativePrompt: e.target.value })}
+                                 placeholder="What the video should not show, e.g. 'text, watermarks, camera shake'"
+                                 className="bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                               />
+                            </label>
+                            <div className="grid grid-cols-2 gap-3">
+                               <label className="flex flex-col gap-1 text-xs text-slate-400">
+                                  Seed
+                                  <div className="flex gap-2">
+                                     <input
+                                       type="number"
+                                       min={0}
+                                       value={settings.seed ?? ''}
+                                       onChange={(e) => changeSettings({ seed: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+                                       placeholder="Random"
+                                       className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-3 py-2 text-sm text-white focus:ring-2 focus:ring-purple-500 outline-none"
+                                     />
+                                     <button
+                                       onClick={() => changeSettings({ seed: Math.floor(Math.random() * 2 ** 31) })}
+                                       className="px-2 rounded border border-slate-600 bg-slate-800 text-slate-300 hover:text-white"
+                                       title="Pick a seed, to reproduce a result later"
+                                     >
+                                        <Dices size={16} />
+                                     </button>
+                                  </div>
+                               </label>
+                               <label className="flex flex-col gap-1 text-xs text-slate-400">
+                                  People
+                                  <select
+                                    value={settings.personGeneration}
+                                    onChange={(e) => changeSettings({ personGeneration: e.target.value as VideoSettings['personGeneration'] })}
+                                    className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+                                  >
+                                     {PERSON_GENERATION_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+                                  </select>
+                               </label>
+                            </div>
+                         </div>
+                      )}
                    </div>
-                </div>
 
-                <div className="bg-yellow-900/20 border border-yellow-600/30 p-4 rounded-lg flex items-start gap-3">
-                   <AlertTriangle className="text-yellow-500 shrink-0" size={20} />
-                   <p className="text-sm text-yellow-200">
-                      Video generation uses the <strong>Veo</strong> model. You will be asked to select your Google Cloud project/API key via a popup if you haven't already.
-                   </p>
-                </div>
+                   <div className="bg-yellow-900/20 border border-yellow-600/30 p-4 rounded-lg flex items-start gap-3">
+                      <AlertTriangle className="text-yellow-500 shrink-0" size={20} />
+                      <p className="text-sm text-yellow-200">
+                         Video generation uses the <strong>Veo</strong> model. You will be asked to select your Google Cloud project/API key via a popup if you haven't already.
+                      </p>
+                   </div>
+                   </>
+                ) : (
+                   <>
+                      <LocalMotionPanel image={sourceImage} motion={motion} onChange={setMotion} disabled={isGenerating} />
+                      <div className="bg-slate-800/50 border border-slate-700 p-4 rounded-lg flex items-start gap-3">
+                         <Move3d className="text-purple-400 shrink-0" size={20} />
+                         <p className="text-sm text-slate-300">
+                            Rendered in your browser from the composite, so it works without Veo access. Keep this tab open while it records.
+                         </p>
+                      </div>
+                   </>
+                )}
 
-                <Button 
-                  onClick={handleGenerate} 
-                  isLoading={isGenerating} 
-                  className="w-full bg-purple-600 hover:bg-purple-500 border-purple-400/30 shadow-[0_0_15px_rgba(147,51,234,0.5)]"
-                >
-                   <Video size={20} />
-                   Generate Video
-                </Button>
+                <div className="flex gap-3">
+                   <Button 
+                     onClick={handleGenerate} 
+                     isLoading={isGenerating} 
+                     disabled={!sourceImage || (mode === 'veo' && !!guidanceError)}
+                     className="flex-1 bg-purple-600 hover:bg-purple-500 border-purple-400/30 shadow-[0_0_15px_rgba(147,51,234,0.5)]"
+                   >
+                      {mode === 'veo' ? <Video size={20} /> : <Move3d size={20} />}
+                      {mode === 'veo' ? "Generate Video" : "Render Video"}
+                   </Button>
+                   {isGenerating && (
+                      <Button onClick={handleCancel} variant="secondary" title="Stop waiting for this video">
+                         <XCircle size={20} />
+                         Cancel
+                      </Button>
+                   )}
+                </div>
              </div>
           </Card>
 
           <Card title="Result">
              <div className="h-full min-h-[400px] bg-black rounded-lg flex items-center justify-center overflow-hidden border border-slate-700 relative">
-                {videoUrl ? (
+                {takeUrls.length > 0 ? (
                    <div className="w-full h-full flex flex-col">
-                      <video 
-                         src={videoUrl} 
-                         controls 
-                         autoPlay 
-                         loop 
-                         className="w-full h-full object-contain"
-                      />
-                      <a 
-                        href={videoUrl} 
-                        download="veo-generation.mp4"
-                        target="_blank"
-                        rel="noreferrer"
+                      {takeUrls.length === 1 ? (
+                         <video 
+                            src={takeUrls[0]} 
+                            controls 
+                            autoPlay 
+                            loop 
+                            className="w-full h-full object-contain"
+                         />
+                      ) : (
+                         <div className="grid grid-cols-2 gap-2 p-2">
+                            {takeUrls.map((url, idx) => (
+                               <button
+                                 key={url}
+                                 onClick={() => setSelectedTake(idx)}
+                                 className={`relative rounded overflow-hidden border-2 transition-all ${selectedTake === idx ? 'border-purple-500' : 'border-transparent hover:border-slate-500'}`}
+                                 title={`Select take ${idx + 1}`}
+                               >
+                                  <video src={url} autoPlay loop muted playsInline className="w-full h-full object-contain bg-black" />
+                                  <span className="absolute bottom-1 left-1 text-xs bg-black/70 text-white px-1.5 py-0.5 rounded">Take {idx + 1}</span>
+                               </button>
+                            ))}
+                         </div>
+                      )}
+                      <button 
+                        onClick={handleDownload}
                         className="absolute top-4 right-4 bg-slate-900/80 p-2 rounded-full text-white hover:bg-blue-600 transition-colors"
+                        title={takeUrls.length > 1 ? `Download take ${selectedTake + 1}` : "Download Video"}
                       >
                          <Download size={20} />
-                      </a>
+                      </button>
+                      <button
+                        onClick={() => setShowExport(true)}
+                        className="absolute top-4 right-16 bg-slate-900/80 p-2 rounded-full text-white hover:bg-blue-600 transition-colors"
+                        title="GIF, WebP, poster frame or edit a frame"
+                      >
+                         <FileImage size={20} />
+                      </button>
+                      <button
+                        onClick={() => setShowSoundtrack(true)}
+                        className="absolute top-4 right-28 bg-slate-900/80 p-2 rounded-full text-white hover:bg-blue-600 transition-colors"
+                        title="Add voiceover, music and captions"
+                      >
+                         <AudioLines size={20} />
+                      </button>
                    </div>
                 ) : (
                    <div className="text-center text-slate-500">
                       {isGenerating ? (
-                         <div className="animate-pulse">
-                            <Video className="mx-auto mb-4 text-purple-500" size={48} />
-                            <p>Dreaming up your video...</p>
-                            <p className="text-xs mt-2 opacity-70">This may take a minute.</p>
+                         <div className="w-64">
+                            <Video className="mx-auto mb-4 text-purple-500 animate-pulse" size={48} />
+                            <p>{isResumed ? "Resuming your previous video..." : mode === 'local' ? "Recording the camera move..." : "Dreaming up your video..."}</p>
+                            <div className="mt-4 h-2 bg-slate-800 rounded-full overflow-hidden">
+                               <div
+                                 className="h-full bg-purple-500 transition-all duration-500"
+                                 style={{ width: `${Math.round(progress * 100)}%` }}
+                               />
+                            </div>
+                            <div className="flex justify-between text-xs mt-2 opacity-70">
+                               <span>{Math.round(progress * 100)}%</span>
+                               <span>{formatElapsed(elapsedMs)} elapsed</span>
+                            </div>
+                            {mode === 'local' && !isResumed && (
+                               <p className="text-xs mt-2">Recording pauses while this tab is in the background.</p>
+                            )}
+                         </div>
+                      ) : error ? (
+                         <div className="px-8">
+                            <AlertTriangle className="mx-auto mb-4 text-red-500" size={48} />
+                            <p className="text-red-300">{error}</p>
+                            {sourceImage && (
+                               <button onClick={handleGenerate} className="mt-4 text-sm text-purple-400 hover:text-purple-300 inline-flex items-center gap-1">
+                                  <RotateCcw size={14} /> Try again
+                               </button>
+                            )}
                          </div>
                       ) : (
                          <>
@@ -128,6 +523,23 @@ const VideoAnimator: React.FC<VideoAnimatorProps> = ({ sourceImage, onBack }) =>
              </div>
           </Card>
        </div>
+
+       {showExport && takes[selectedTake] && (
+          <VideoExportPanel
+            blob={takes[selectedTake]}
+            fileName={exportName()}
+            onGrabFrame={(frame, time) => onEditFrame(frame, `Frame at ${time.toFixed(1)}s of the video`)}
+            onClose={() => setShowExport(false)}
+          />
+       )}
+
+       {showSoundtrack && takes[selectedTake] && (
+          <SoundtrackPanel
+            blob={takes[selectedTake]}
+            onRendered={handleSoundtrackRendered}
+            onClose={() => setShowSoundtrack(false)}
+          />
+       )}
     </div>
   );
 };
@@ -0,0 +1,231 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { AnimationFormat, EXPORT_FPS, EXPORT_WIDTHS, MAX_ANIMATION_FRAMES, countFrames, exportAnimatedGif, exportAnimatedWebp, exportPosterFrame } from '../services/videoExport';
+import { showErrorToast } from '../services/notifications';
+import Button from './ui/Button';
+import { ImageAsset } from '../types';
+import { captureVideoFrame, downloadBlob, loadVideoBlob } from '../utils';
+import { Download, FileImage, ImagePlus, X, XCircle } from 'lucide-react';
+
+interface VideoExportPanelProps {
+  blob: Blob;
+  fileName: string; // Without extension
+  onGrabFrame: (image: ImageAsset, time: number) => void;
+  onClose: () => void;
+}
+
+const FORMATS: { value: AnimationFormat; label: string }[] = [
+  { value: 'gif', label: 'Animated GIF' },
+  { value: 'webp', label: 'Animated WebP' },
+];
+
+const DEFAULT_GIF_SECONDS = 4;
+
+const formatTime = (seconds: number) => `${seconds.toFixed(2)}s`;
+
+// Trims, resizes and re-encodes a video for social posts and docs, or sends a single frame back to the editor
+const VideoExportPanel: React.FC<VideoExportPanelProps> = ({ blob, fileName, onGrabFrame, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [duration, setDuration] = useState(0);
+  const [currentTime, setCurrentTime] = useState(0);
+  const [start, setStart] = useState(0);
+  const [end, setEnd] = useState(0);
+  const [width, setWidth] = useState(480);
+  const [fps, setFps] = useState(12);
+  const [format, setFormat] = useState<AnimationFormat>('gif');
+  const [progress, setProgress] = useState<number | null>(null);
+  const [isGrabbing, setIsGrabbing] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(blob);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [blob]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  // The player can't tell the length of videos recorded in the browser, so measure it separately
+  useEffect(() => {
+    let cancelled = false;
+    loadVideoBlob(blob)
+      .then(({ duration: length, release }) => {
+        release();
+        if (cancelled) return;
+        setDuration(length);
+        setEnd(Math.min(length, DEFAULT_GIF_SECONDS));
+      })
+      .catch(error => showErrorToast("Could not read the video", error));
+    return () => { cancelled = true; };
+  }, [blob]);
+
+  const frameCount = countFrames({ start, end, fps, width });
+  const isTooLong = frameCount > MAX_ANIMATION_FRAMES;
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const encode = format === 'gif' ? exportAnimatedGif : exportAnimatedWebp;
+      const result = await encode(blob, { start, end, fps, width }, { signal: controller.signal, onProgress: setProgress });
+      downloadBlob(result, `${fileName}.${format}`);
+    } catch (error) {
+      if (!controller.signal.aborted) showErrorToast(`${format.toUpperCase()} export failed`, error, handleExport);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setProgress(null);
+      }
+    }
+  };
+
+  const handlePoster = async () => {
+    try {
+      const png = await exportPosterFrame(blob, currentTime, width);
+      downloadBlob(png, `${fileName}-poster.png`);
+    } catch (error) {
+      showErrorToast("Could not save the frame", error);
+    }
+  };
+
+  const handleGrabFrame = async () => {
+    setIsGrabbing(true);
+    try {
+      // Full size, since the editor works on the original resolution
+      onGrabFrame(await captureVideoFrame(blob, currentTime), currentTime);
+    } catch (error) {
+      showErrorToast("Could not grab the frame", error);
+    } finally {
+      setIsGrabbing(false);
+    }
+  };
+
+  const rangeInput = (label: string, value: number, onChange: (value: number) => void, min: number, max: number) => (
+    <label className="flex flex-col gap-1 text-xs text-slate-400">
+      {label}
+      <div className="flex gap-2">
+        <input
+          type="number"
+          min={min}
+          max={max}
+          step={0.1}
+          value={Number(value.toFixed(2))}
+          onChange={(e) => {
+            const v = parseFloat(e.target.value);
+            if (!Number.isNaN(v)) onChange(Math.min(max, Math.max(min, v)));
+          }}
+          disabled={isExporting}
+          className="flex-1 min-w-0 bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+        />
+        <button
+          onClick={() => onChange(Math.min(max, Math.max(min, currentTime)))}
+          disabled={isExporting}
+          className="px-2 rounded border border-slate-600 bg-slate-800 text-xs text-slate-300 hover:text-white"
+          title="Use the player's position"
+        >
+          Here
+        </button>
+      </div>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/80 backdrop-blur-sm flex items-center justify-center p-6">
+      <div className="glass-panel rounded-xl p-6 w-full max-w-3xl max-h-full flex flex-col gap-4 shadow-2xl overflow-y-auto">
+        <div className="flex items-center justify-between">
+          <h2 className="text-xl font-bold text-white flex items-center gap-2"><FileImage size={20} /> Export Frames</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white" title="Close">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="bg-black rounded-lg overflow-hidden border border-slate-700">
+          {url && (
+            <video
+              src={url}
+              controls
+              playsInline
+              onTimeUpdate={(e) => setCurrentTime(e.currentTarget.currentTime)}
+              className="w-full max-h-80 object-contain"
+            />
+          )}
+        </div>
+
+        <div className="flex gap-3">
+          <Button onClick={handleGrabFrame} disabled={isGrabbing || isExporting} isLoading={isGrabbing} variant="secondary" className="flex-1 py-2 text-sm">
+            <ImagePlus size={16} /> Edit Frame at {formatTime(currentTime)}
+          </Button>
+          <Button onClick={handlePoster} disabled={isExporting} variant="secondary" className="flex-1 py-2 text-sm">
+            <Download size={16} /> Poster PNG
+          </Button>
+        </div>
+
+        <div className="bg-slate-800/50 p-4 rounded-lg border border-slate-700 space-y-4">
+          <div className="flex gap-2">
+            {FORMATS.map(f => (
+              <button
+                key={f.value}
+                onClick={() => setFormat(f.value)}
+                disabled={isExporting}
+                className={`px-3 py-1.5 rounded text-sm border ${format === f.value ? "bg-purple-600 border-purple-500 text-white" : "bg-slate-800 border-slate-600 text-slate-400"}`}
+              >
+                {f.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {rangeInput("Start", start, v => setStart(Math.min(v, end)), 0, duration)}
+            {rangeInput("End", end, v => setEnd(Math.max(v, start)), 0, duration)}
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Width
+              <select
+                value={width}
+                onChange={(e) => setWidth(parseInt(e.target.value, 10))}
+                disabled={isExporting}
+                className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+              >
+                {EXPORT_WIDTHS.map(w => <option key={w} value={w}>{w}px</option>)}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs text-slate-400">
+              Frame rate
+              <select
+                value={fps}
+                onChange={(e) => setFps(parseInt(e.target.value, 10))}
+                disabled={isExporting}
+                className="bg-slate-800 border border-slate-600 rounded px-2 py-2 text-sm text-white"
+              >
+                {EXPORT_FPS.map(f => <option key={f} value={f}>{f} fps</option>)}
+              </select>
+            </label>
+          </div>
+
+          <p className={`text-xs ${isTooLong ? 'text-amber-300' : 'text-slate-500'}`}>
+            {formatTime(end - start)} at {fps} fps = {frameCount} frames.
+            {isTooLong && ` The limit is ${MAX_ANIMATION_FRAMES}; shorten the range or lower the frame rate.`}
+          </p>
+
+          {isExporting ? (
+            <div className="flex items-center gap-3">
+              <div className="flex-1 h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-purple-500 transition-all duration-300" style={{ width: `${Math.round(progress * 100)}%` }} />
+              </div>
+              <span className="text-xs text-slate-300">{Math.round(progress * 100)}%</span>
+              <button onClick={() => abortRef.current?.abort()} className="text-slate-400 hover:text-red-400" title="Cancel export">
+                <XCircle size={16} />
+              </button>
+            </div>
+          ) : (
+            <Button onClick={handleExport} disabled={isTooLong || end <= start} className="w-full py-2 text-sm bg-purple-600 hover:bg-purple-500 border-purple-400/30 shadow-none">
+              <Download size={16} /> Export {format === 'gif' ? 'GIF' : 'WebP'}
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoExportPanel;
@@ -0,0 +1,154 @@
+import React, { useRef } from 'react';
+import { showErrorToast } from '../services/notifications';
+import { MAX_REFERENCE_IMAGES, validateReferenceImages } from '../services/videoPresets';
+import { CompositeRecord, ImageAsset, VideoGuidance, VideoReferenceType } from '../types';
+import { normalizeImageFile, toDataUrl } from '../utils';
+import { ArrowRight, Upload, X, Flag } from 'lucide-react';
+
+interface VideoGuidancePanelProps {
+  sourceImage: ImageAsset | null;
+  history: CompositeRecord[]; // Versions from the editor, offered as end frames and references
+  guidance: VideoGuidance;
+  onChange: (guidance: VideoGuidance) => void;
+  disabled?: boolean;
+}
+
+const REFERENCE_TYPES: { value: VideoReferenceType; label: string }[] = [
+  { value: 'asset', label: 'Subject / scene' },
+  { value: 'style', label: 'Style' },
+];
+
+// Start/end frames or reference images for the next video. Only one of the two modes is sent.
+const VideoGuidancePanel: React.FC<VideoGuidancePanelProps> = ({ sourceImage, history, guidance, onChange, disabled }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const references = guidance.referenceImages;
+  const isReferenceMode = !!references;
+  const referenceError = references ? validateReferenceImages(references) : null;
+
+  // The start frame is already in use, so don't offer it again
+  const choices = history.filter(version => version.image.data !== sourceImage?.data);
+
+  const addImage = (image: ImageAsset) => {
+    if (references) {
+      onChange({ referenceImages: [...references, { image, type: 'asset' }] });
+    } else {
+      onChange({ lastFrame: image });
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (!file) return;
+    try {
+      addImage(await normalizeImageFile(file));
+    } catch (error) {
+      showErrorToast("Could not read that photo", error);
+    }
+  };
+
+  const setMode = (referenceMode: boolean) => {
+    if (referenceMode === isReferenceMode) return;
+    // References start from the composite, so switching over keeps the scene
+    onChange(referenceMode ? { referenceImages: sourceImage ? [{ image: sourceImage, type: 'asset' }] : [] } : {});
+  };
+
+  const canAdd = !references || references.length < MAX_REFERENCE_IMAGES;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        {([[false, "Start & End Frame"], [true, "Reference Images"]] as const).map(([mode, label]) => (
+          <button
+            key={label}
+            onClick={() => setMode(mode)}
+            disabled={disabled}
+            className={`px-3 py-1.5 rounded text-sm border ${isReferenceMode === mode ? "bg-purple-600 border-purple-500 text-white" : "bg-slate-800 border-slate-600 text-slate-400"}`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {!references ? (
+        <div className="flex items-center gap-3">
+          <div className="w-28 aspect-video rounded overflow-hidden border border-slate-600 bg-slate-900 shrink-0">
+            {sourceImage && <img src={toDataUrl(sourceImage)} alt="Start frame" className="w-full h-full object-cover" />}
+          </div>
+          <ArrowRight className="text-slate-500 shrink-0" size={18} />
+          <div className="relative w-28 aspect-video rounded overflow-hidden border border-dashed border-slate-600 bg-slate-900 shrink-0 flex items-center justify-center">
+            {guidance.lastFrame ? (
+              <>
+                <img src={toDataUrl(guidance.lastFrame)} alt="End frame" className="w-full h-full object-cover" />
+                <button onClick={() => onChange({})} disabled={disabled} className="absolute top-1 right-1 p-0.5 rounded bg-black/70 text-white" title="Remove end frame">
+                  <X size={12} />
+                </button>
+              </>
+            ) : (
+              <span className="text-[10px] text-slate-500 flex items-center gap-1"><Flag size={10} /> No end frame</span>
+            )}
+          </div>
+          <p className="text-xs text-slate-500">Optional: the video will end on this frame, e.g. a later edit with the subject somewhere else.</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {references.map((reference, idx) => (
+            <div key={idx} className="flex items-center gap-3">
+              <img src={toDataUrl(reference.image)} alt={`Reference ${idx + 1}`} className="w-20 aspect-video object-cover rounded border border-slate-600" />
+              <select
+                value={reference.type}
+                onChange={(e) => onChange({ referenceImages: references.map((r, i) => i === idx ? { ...r, type: e.target.value as VideoReferenceType } : r) })}
+                disabled={disabled}
+                className="bg-slate-800 border border-slate-600 rounded px-2 py-1.5 text-sm text-white"
+              >
+                {REFERENCE_TYPES.map(t => <option key={t.value} value={t.value}>{t.label}</option>)}
+              </select>
+              <button
+                onClick={() => onChange({ referenceImages: references.filter((_, i) => i !== idx) })}
+                disabled={disabled}
+                className="p-1 text-slate-400 hover:text-white"
+                title="Remove reference"
+              >
+                <X size={16} />
+              </button>
+            </div>
+          ))}
+          <p className={`text-xs ${referenceError ? 'text-amber-300' : 'text-slate-500'}`}>
+            {referenceError || "The model keeps these subjects or this look; the video doesn't have to start on any of them."}
+          </p>
+        </div>
+      )}
+
+      {canAdd && (
+        <div>
+          <p className="text-xs text-slate-400 mb-1">{references ? "Add a reference" : "Pick an end frame"}</p>
+          <div className="flex gap-2 overflow-x-auto pb-1">
+            {choices.map(version => (
+              <button
+                key={version.id}
+                onClick={() => addImage(version.image)}
+                disabled={disabled}
+                className="shrink-0 w-20 h-12 rounded overflow-hidden border-2 border-transparent hover:border-purple-500 transition-colors"
+                title={version.prompt || version.kind}
+              >
+                <img src={toDataUrl(version.image)} alt="Editor version" className="w-full h-full object-cover" />
+              </button>
+            ))}
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              disabled={disabled}
+              className="shrink-0 w-20 h-12 rounded border-2 border-dashed border-slate-600 text-slate-400 hover:text-white hover:border-slate-400 flex items-center justify-center"
+              title="Upload an image"
+            >
+              <Upload size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+
+      <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileChange} className="hidden" />
+    </div>
+  );
+};
+
+export default VideoGuidancePanel;
@@ -0,0 +1,39 @@
+import React from 'react';
+
+interface SliderProps {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+  accent?: 'blue' | 'purple'; // Blue in the editor, purple in the video tools
+}
+
+const ACCENTS = {
+  blue: 'accent-blue-500',
+  purple: 'accent-purple-500',
+};
+
+const Slider: React.FC<SliderProps> = ({ label, value, display, min, max, step, onChange, disabled, accent = 'blue' }) => (
+  <div>
+    <div className="flex items-center justify-between text-xs text-slate-400 mb-1">
+      <span>{label}</span>
+      <span>{display}</span>
+    </div>
+    <input
+      type="range"
+      min={min}
+      max={max}
+      step={step}
+      value={value}
+      onChange={(e) => onChange(parseFloat(e.target.value))}
+      disabled={disabled}
+      className={`w-full h-2 bg-slate-700 rounded-lg appearance-none cursor-pointer ${ACCENTS[accent]}`}
+    />
+  </div>
+);
+
+export default Slider;
@@ -0,0 +1,59 @@
+import React, { useState, useSyncExternalStore } from 'react';
+import { subscribeToasts, getToasts, dismissToast, Toast } from '../../services/notifications';
+import { AlertTriangle, ShieldAlert, KeyRound, Clock, MessageSquareText, RotateCcw, X } from 'lucide-react';
+
+const ICONS: Partial<Record<NonNullable<Toast['code']>, React.ElementType>> = {
+  quota: Clock,
+  safety: ShieldAlert,
+  'invalid-key': KeyRound,
+  'text-response': MessageSquareText,
+};
+
+const ToastItem: React.FC<{ toast: Toast }> = ({ toast }) => {
+  const [showDetail, setShowDetail] = useState(false);
+  const Icon = (toast.code && ICONS[toast.code]) || AlertTriangle;
+
+  return (
+    <div className="glass-panel rounded-lg p-4 shadow-2xl border-l-4 !border-l-red-500 w-80 animate-in fade-in slide-in-from-bottom-4">
+      <div className="flex items-start gap-3">
+        <Icon className="text-red-400 shrink-0 mt-0.5" size={18} />
+        <div className="flex-1 min-w-0">
+          <p className="font-bold text-white text-sm">{toast.title}</p>
+          <p className="text-slate-300 text-sm mt-1">{toast.message}</p>
+          {toast.detail && (
+            <button onClick={() => setShowDetail(d => !d)} className="text-xs text-slate-400 hover:text-slate-200 mt-1">
+              {showDetail ? "Hide details" : "Details"}
+            </button>
+          )}
+          {showDetail && (
+            <p className="text-xs text-slate-400 mt-1 max-h-32 overflow-y-auto whitespace-pre-wrap break-words font-mono">{toast.detail}</p>
+          )}
+          {toast.retry && (
+            <button
+              onClick={() => { dismissToast(toast.id); toast.retry?.(); }}
+              className="mt-2 text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1"
+            >
+              <RotateCcw size={14} /> Retry
+            </button>
+          )}
+        </div>
+        <button onClick={() => dismissToast(toast.id)} className="text-slate-500 hover:text-white" title="Dismiss">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const ToastHost: React.FC = () => {
+  const toasts = useSyncExternalStore(subscribeToasts, getToasts);
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-6 right-6 z-[200] flex flex-col gap-3">
+      {toasts.map(toast => <ToastItem key={toast.id} toast={toast} />)}
+    </div>
+  );
+};
+
+export default ToastHost;
@@ -0,0 +1,84 @@
+import { ImageAsset, ImageResult } from "../types";
+
+// Typed errors for everything that goes wrong talking to a model, so the UI can say what
+// actually happened and the request queue knows which failures are worth retrying.
+
+export type AIErrorCode =
+  | 'quota' // 429 / RESOURCE_EXHAUSTED: rate limit or quota hit
+  | 'safety' // The prompt or the output was blocked by safety filters
+  | 'invalid-key' // Missing, invalid or unauthorised API key
+  | 'text-response' // The model answered in words instead of with an image
+  | 'server' // 5xx from the API
+  | 'network' // The request never got an answer
+  | 'unknown';
+
+const RETRYABLE_CODES: AIErrorCode[] = ['quota', 'server', 'network'];
+
+export class AIError extends Error {
+  code: AIErrorCode;
+  retryable: boolean;
+  detail?: string; // Extra context, e.g. the text the model replied with
+  retryAfterMs?: number; // Server-suggested wait before retrying
+
+  constructor(message: string, code: AIErrorCode, options: { detail?: string; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AIError';
+    this.code = code;
+    this.retryable = RETRYABLE_CODES.includes(code);
+    this.detail = options.detail;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+}
+
+// The SDK's ApiError carries the HTTP status; other errors may only mention it in the message
+const getStatus = (error: unknown, message: string): number | undefined => {
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number') return status;
+  const match = message.match(/"code"\s*:\s*(\d{3})/);
+  return match ? parseInt(match[1], 10) : undefined;
+};
+
+// Quota errors from the Gemini API include a RetryInfo detail such as "retryDelay": "23s"
+const getRetryAfterMs = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay"\s*:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+};
+
+export const classifyError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const status = getStatus(error, message);
+
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(message)) {
+    return new AIError("The API rate limit or quota was hit. Wait a moment and try again, or check your plan's limits.", 'quota', {
+      detail: message,
+      retryAfterMs: getRetryAfterMs(message),
+      cause: error,
+    });
+  }
+  if (status === 401 || status === 403 || /API key not valid|API_KEY_INVALID|PERMISSION_DENIED|api key/i.test(message)) {
+    return new AIError("The API key is missing, invalid or not allowed to use this model. Check GEMINI_API_KEY in .env.local.", 'invalid-key', {
+      detail: message,
+      cause: error,
+    });
+  }
+  if (status !== undefined && status >= 500) {
+    return new AIError("The AI service had a temporary problem.", 'server', { detail: message, cause: error });
+  }
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(message)) {
+    return new AIError("Could not reach the AI service. Check your connection.", 'network', { detail: message, cause: error });
+  }
+  return new AIError(message || "Something went wrong.", 'unknown', { cause: error });
+};
+
+// For callers that only need the picture: a refusal or safety block becomes an AIError
+export const requireImage = (result: ImageResult): ImageAsset => {
+  if (result.kind === 'image') return result.image;
+  if (result.kind === 'blocked') {
+    throw new AIError(`The ${result.stage === 'prompt' ? 'prompt' : 'result'} was blocked by the safety filters. Try a different prompt or image.`, 'safety', {
+      detail: [result.category, result.message].filter(Boolean).join(': ') || undefined,
+    });
+  }
+  throw new AIError("The model replied with text instead of an image.", 'text-response', { detail: result.text });
+};
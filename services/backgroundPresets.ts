@@ -0,0 +1,76 @@
+import { BackgroundOptions, BackgroundStyle, Season, TimeOfDay, Weather } from "../types";
+
+// Labels for the picker and the prompt wording behind each background option.
+// Shared by every provider so "cinematic" means the same thing everywhere.
+
+interface Preset<T extends string> {
+  value: T;
+  label: string;
+  prompt: string; // Empty for 'any'
+}
+
+export const STYLE_PRESETS: Preset<BackgroundStyle>[] = [
+  { value: 'photoreal', label: 'Photoreal', prompt: 'A photorealistic, high-quality 8k photograph. Natural colours, sharp detail, suitable for a travel postcard.' },
+  { value: 'cinematic', label: 'Cinematic', prompt: 'A cinematic film still, anamorphic widescreen framing, dramatic lighting and a rich colour grade.' },
+  { value: 'anime', label: 'Anime', prompt: 'A hand-painted anime background in the style of a feature animation film, clean lines and vivid colours.' },
+  { value: 'watercolor', label: 'Watercolor', prompt: 'A loose watercolor painting on textured paper, soft washes and visible brush strokes.' },
+];
+
+export const TIME_OF_DAY_PRESETS: Preset<TimeOfDay>[] = [
+  { value: 'any', label: 'Any time', prompt: '' },
+  { value: 'sunrise', label: 'Sunrise', prompt: 'at sunrise, with low pink and orange light' },
+  { value: 'midday', label: 'Midday', prompt: 'at midday, with bright overhead sun' },
+  { value: 'golden-hour', label: 'Golden hour', prompt: 'at golden hour, with warm low sunlight and long shadows' },
+  { value: 'blue-hour', label: 'Blue hour', prompt: 'at blue hour, just after sunset, with the lights coming on' },
+  { value: 'night', label: 'Night', prompt: 'at night, lit by street lights and windows' },
+];
+
+export const WEATHER_PRESETS: Preset<Weather>[] = [
+  { value: 'any', label: 'Any weather', prompt: '' },
+  { value: 'clear', label: 'Clear', prompt: 'under a clear sky' },
+  { value: 'cloudy', label: 'Cloudy', prompt: 'under an overcast, cloudy sky' },
+  { value: 'rain', label: 'Rain', prompt: 'in the rain, with wet reflective surfaces' },
+  { value: 'snow', label: 'Snow', prompt: 'while snow is falling, with snow on the ground' },
+  { value: 'fog', label: 'Fog', prompt: 'in thick fog' },
+];
+
+export const SEASON_PRESETS: Preset<Season>[] = [
+  { value: 'any', label: 'Any season', prompt: '' },
+  { value: 'spring', label: 'Spring', prompt: 'in spring, with fresh green leaves and blossom' },
+  { value: 'summer', label: 'Summer', prompt: 'in summer, lush and full of colour' },
+  { value: 'autumn', label: 'Autumn', prompt: 'in autumn, with red and golden foliage' },
+  { value: 'winter', label: 'Winter', prompt: 'in winter, with bare trees and cold light' },
+];
+
+export const DEFAULT_BACKGROUND_OPTIONS: BackgroundOptions = {
+  style: 'photoreal',
+  timeOfDay: 'any',
+  weather: 'any',
+  season: 'any',
+};
+
+// Candidates for the same location ask for different framings so the picker isn't a grid of near-duplicates
+const VIEWPOINTS = [
+  '',
+  'Use a wide establishing shot.',
+  'Frame it from street level, at eye height.',
+  'Show it from a slightly elevated viewpoint.',
+  'Use a closer view with strong foreground detail.',
+];
+
+const promptFor = <T extends string>(presets: Preset<T>[], value: T) => presets.find(p => p.value === value)?.prompt || '';
+
+export const buildLocationPrompt = (locationName: string, options: BackgroundOptions, variation = 0): string => {
+  const conditions = [
+    promptFor(TIME_OF_DAY_PRESETS, options.timeOfDay),
+    promptFor(WEATHER_PRESETS, options.weather),
+    promptFor(SEASON_PRESETS, options.season),
+  ].filter(Boolean).join(', ');
+
+  return [
+    `Create an image of ${locationName}${conditions ? `, ${conditions}` : ''}.`,
+    promptFor(STYLE_PRESETS, options.style),
+    'Leave room in the scene for people to be added later; do not include any prominent people.',
+    VIEWPOINTS[variation % VIEWPOINTS.length],
+  ].filter(Boolean).join(' ');
+};
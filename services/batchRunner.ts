@@ -0,0 +1,203 @@
+import { BackgroundOptions, ImageAsset, SubjectLayer, VideoAspectRatio, VideoSettings } from "../types";
+import { editImage, generateLocationImage } from "./geminiService";
+import { runVideoJob } from "./videoJobs";
+import { AIError, requireImage } from "./aiErrors";
+import { refinePrompt } from "./compositeStrategies";
+import { DEFAULT_BACKGROUND_OPTIONS } from "./backgroundPresets";
+import { DEFAULT_VIDEO_SETTINGS } from "./videoPresets";
+import { mergeImages } from "../utils";
+
+// Runs the generate -> merge -> refine (-> animate) pipeline for every location/subject pair,
+// a few at a time. Each item retries from the stage that failed, so finished work is never redone.
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+export type BatchStage = 'background' | 'merge' | 'refine' | 'video';
+
+export interface BatchLocation {
+  name: string;
+  description: string; // What the model is asked to draw; may include the address
+}
+
+export interface BatchSubject {
+  name: string;
+  image: ImageAsset;
+}
+
+export interface BatchItem {
+  id: string;
+  location: BatchLocation;
+  subject: BatchSubject;
+  status: BatchItemStatus;
+  stage?: BatchStage; // The stage running or last attempted
+  attempts: number;
+  error?: string;
+  background?: ImageAsset;
+  merged?: ImageAsset;
+  composite?: ImageAsset;
+  video?: Blob;
+  videoSettings?: VideoSettings;
+}
+
+export interface BatchOptions {
+  concurrency: number;
+  maxRetries: number;
+  withVideo: boolean;
+  refinePrompt?: string; // Extra instructions for the refine step
+  videoPrompt?: string;
+  aspectRatio?: VideoAspectRatio;
+  backgroundOptions?: BackgroundOptions;
+  signal?: AbortSignal;
+  onItemUpdate: (item: BatchItem) => void;
+}
+
+const RETRY_DELAY_MS = 2000;
+const DEFAULT_VIDEO_PROMPT = 'Cinematic camera movement, subtle natural motion in the scene.';
+
+export const createBatchItems = (locations: BatchLocation[], subjects: BatchSubject[]): BatchItem[] => {
+  return locations.flatMap(location => subjects.map(subject => ({
+    id: crypto.randomUUID(),
+    location,
+    subject,
+    status: 'queued' as const,
+    attempts: 0,
+  })));
+};
+
+// One location per line, either "Name" or CSV "Name,Address". A header row starting with "name" is skipped.
+export const parseLocationList = (text: string): BatchLocation[] => {
+  // Empty cells keep their place; the cell without a trailing comma is the last one
+  const splitCsvLine = (line: string) => {
+    const cells: string[] = [];
+    for (const [, cell, , delimiter] of line.matchAll(/("([^"]|"")*"|[^,]*)(,|$)/g)) {
+      cells.push(cell.trim().replace(/^"(.*)"$/, '$1').replace(/""/g, '"'));
+      if (!delimiter) break;
+    }
+    return cells;
+  };
+
+  return text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !/^name\s*(,|$)/i.test(line))
+    .map(line => {
+      const [name, ...rest] = splitCsvLine(line);
+      const address = rest.filter(Boolean).join(', ');
+      return { name, description: address ? `${name}, ${address}` : name };
+    })
+    .filter(location => !!location.name);
+};
+
+// The subject goes where a person would usually stand: centered, a little below the middle
+export const placeSubject = (subject: BatchSubject): SubjectLayer => ({
+  id: crypto.randomUUID(),
+  name: subject.name,
+  image: subject.image,
+  x: 0.5,
+  y: 0.6,
+  scale: 1,
+  rotation: 0,
+  flipX: false,
+  opacity: 1,
+});
+
+const isAborted = (signal?: AbortSignal) => !!signal?.aborted;
+
+// Ends early when the batch is cancelled, so the item stops without sitting out its retry delay
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  if (signal?.aborted) return resolve();
+  const onAbort = () => {
+    clearTimeout(timer);
+    resolve();
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const runBatch = async (items: BatchItem[], options: BatchOptions): Promise<BatchItem[]> => {
+  const { concurrency, maxRetries, withVideo, signal, onItemUpdate } = options;
+  const backgroundOptions = options.backgroundOptions ?? DEFAULT_BACKGROUND_OPTIONS;
+
+  // Several subjects in one location share a single generated background
+  const backgrounds = new Map<string, Promise<ImageAsset>>();
+  const getBackground = (location: BatchLocation) => {
+    let pending = backgrounds.get(location.description);
+    if (!pending) {
+      pending = generateLocationImage(location.description, backgroundOptions).then(requireImage);
+      // Let a retry ask again instead of reusing the failure
+      pending.catch(() => backgrounds.delete(location.description));
+      backgrounds.set(location.description, pending);
+    }
+    return pending;
+  };
+
+  const update = (item: BatchItem, changes: Partial<BatchItem>) => {
+    Object.assign(item, changes);
+    onItemUpdate({ ...item });
+  };
+
+  const runStages = async (item: BatchItem) => {
+    if (!item.background) {
+      update(item, { stage: 'background' });
+      update(item, { background: await getBackground(item.location) });
+    }
+    if (!item.merged) {
+      update(item, { stage: 'merge' });
+      update(item, { merged: await mergeImages(item.background!, [placeSubject(item.subject)]) });
+    }
+    if (!item.composite) {
+      update(item, { stage: 'refine' });
+      update(item, { composite: requireImage(await editImage(item.merged!, refinePrompt(options.refinePrompt ?? '', 1))) });
+    }
+    if (withVideo && !item.video) {
+      update(item, { stage: 'video' });
+      const videoSettings: VideoSettings = { ...DEFAULT_VIDEO_SETTINGS, aspectRatio: options.aspectRatio ?? '16:9' };
+      const [video] = await runVideoJob(item.composite!, options.videoPrompt || DEFAULT_VIDEO_PROMPT, videoSettings, {}, {
+        signal,
+        persist: false,
+      });
+      update(item, { video, videoSettings });
+    }
+  };
+
+  const processItem = async (item: BatchItem) => {
+    while (true) {
+      if (isAborted(signal)) {
+        update(item, { status: 'cancelled' });
+        return;
+      }
+      update(item, { status: 'running', attempts: item.attempts + 1, error: undefined });
+      try {
+        await runStages(item);
+        update(item, { status: 'done' });
+        return;
+      } catch (error) {
+        console.error(`Batch item ${item.location.name} / ${item.subject.name} failed:`, error);
+        const message = error instanceof Error ? error.message : String(error);
+        if (isAborted(signal)) {
+          update(item, { status: 'cancelled', error: message });
+          return;
+        }
+        // Safety blocks, refusals, bad keys and bad requests fail the same way on every attempt
+        if (item.attempts > maxRetries || (error instanceof AIError && !error.retryable)) {
+          update(item, { status: 'failed', error: message });
+          return;
+        }
+        update(item, { status: 'queued', error: message });
+        await wait(RETRY_DELAY_MS * item.attempts, signal);
+      }
+    }
+  };
+
+  const queue = [...items];
+  const workers = Array.from({ length: Math.max(1, concurrency) }, async () => {
+    let next: BatchItem | undefined;
+    while ((next = queue.shift())) {
+      await processItem(next);
+    }
+  });
+  await Promise.all(workers);
+  return items;
+};
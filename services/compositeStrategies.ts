@@ -0,0 +1,60 @@
+import { CompositeStrategy, ImageAsset, ImageResult, SubjectLayer } from "../types";
+import { compositeImages, editImage } from "./geminiService";
+import { AI_COMPOSITE_TEMPLATE, REFINE_DEFAULT_TEMPLATE, REFINE_INSTRUCTION, describeSubjects, fillPromptTemplate } from "./promptPresets";
+import { arrangeLayers, mergeImages } from "../utils";
+
+// The ways the composer can turn a background plus arranged subjects into a first composite.
+
+interface StrategyInfo {
+  value: CompositeStrategy;
+  label: string;
+  description: string;
+}
+
+export const COMPOSITE_STRATEGIES: StrategyInfo[] = [
+  { value: 'merge-refine', label: 'Merge + Refine', description: 'Merged exactly as arranged, then the AI blends lighting, shadows and perspective.' },
+  { value: 'ai-composite', label: 'AI Composite', description: 'The AI gets the background and the subjects separately and places them itself, using your layout as a guide.' },
+  { value: 'merge-only', label: 'Raw Merge', description: 'Merged exactly as arranged, with no AI. Instant and free.' },
+];
+
+export const DEFAULT_COMPOSITE_STRATEGY: CompositeStrategy = 'merge-refine';
+
+export const strategyLabel = (strategy: CompositeStrategy) =>
+  COMPOSITE_STRATEGIES.find(s => s.value === strategy)?.label ?? strategy;
+
+export interface StrategyRun {
+  result: ImageResult;
+  prompt: string; // What was actually sent to the model; empty for a raw merge
+}
+
+// Also used by the batch runner, which refines every merge the same way
+export const refinePrompt = (prompt: string, subjectCount: number) => {
+  return prompt
+    ? `${REFINE_INSTRUCTION} ${prompt}`
+    : fillPromptTemplate(REFINE_DEFAULT_TEMPLATE, { subject: describeSubjects(subjectCount) });
+};
+
+const aiCompositePrompt = (prompt: string, layers: SubjectLayer[]) => {
+  const instruction = fillPromptTemplate(AI_COMPOSITE_TEMPLATE, { subject: describeSubjects(layers.length) });
+  return `${instruction} ${prompt}`.trim();
+};
+
+export const runCompositeStrategy = async (
+  strategy: CompositeStrategy,
+  background: ImageAsset,
+  layers: SubjectLayer[],
+  prompt: string
+): Promise<StrategyRun> => {
+  switch (strategy) {
+    case 'merge-only':
+      return { result: { kind: 'image', image: await mergeImages(background, layers) }, prompt: '' };
+    case 'ai-composite': {
+      const usedPrompt = aiCompositePrompt(prompt, layers);
+      return { result: await compositeImages(background, await arrangeLayers(background, layers), usedPrompt), prompt: usedPrompt };
+    }
+    case 'merge-refine': {
+      const usedPrompt = refinePrompt(prompt, layers.length);
+      return { result: await editImage(await mergeImages(background, layers), usedPrompt), prompt: usedPrompt };
+    }
+  }
+};
@@ -1,244 +1,87 @@
-import { GoogleGenAI, VideoGenerationReferenceType } from "@google/genai";
-import { LocationResult } from "../types";
-
-// Helper to get AI client.
-const getAiClient = () => {
-  return new GoogleGenAI({ apiKey: process.env.API_KEY });
-};
+import { BackgroundOptions, ImageAsset, ImageRefusal, ImageResult, PromptStyle, VideoGuidance, VideoSettings } from "../types";
+import { getProvider, LocationSearchResult, VideoOperationStatus } from "./providers";
+import { DEFAULT_BACKGROUND_OPTIONS } from "./backgroundPresets";
+import { DEFAULT_VIDEO_SETTINGS } from "./videoPresets";
+import { scheduleRequest } from "./requestQueue";
+import { blendWithMask } from "../utils";
+
+// Components talk to this module only; the backend behind it is chosen by getProvider().
+// Every call is queued and retried by scheduleRequest and fails with a classified AIError.
+// Image calls resolve to an ImageResult: a refusal or safety block is an answer, not a failure.
+// Use requireImage from ./aiErrors where only the picture matters.
 
 // 1. Search Locations using Google Maps Grounding
-export const searchLocations = async (query: string): Promise<{ text: string; locations: LocationResult[] }> => {
-  const ai = getAiClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: `Find the top 5 best locations or specific spots matching this description: "${query}". 
-      Return a list of specific real-world places.`,
-      config: {
-        tools: [{ googleMaps: {} }],
-      },
-    });
-
-    const text = response.text || "No description found.";
-    const candidates = response.candidates || [];
-    const locations: LocationResult[] = [];
-
-    if (candidates.length > 0) {
-      const groundingMetadata = candidates[0].groundingMetadata;
-      if (groundingMetadata?.groundingChunks) {
-        groundingMetadata.groundingChunks.forEach((chunk) => {
-          if (chunk.web?.uri && chunk.web.title) {
-             // Fallback to web results if maps fail, though usually we want maps
-             // locations.push({ title: chunk.web.title, uri: chunk.web.uri });
-          }
-        });
-      }
-    }
-
-    return { text, locations }; 
-  } catch (error) {
-    console.error("Search Error:", error);
-    throw error;
-  }
+export const searchLocations = (query: string): Promise<LocationSearchResult> => {
+  return scheduleRequest(() => getProvider().searchLocations(query));
 };
 
 // 2. Generate a High-Quality Background Image for the Location (Nano Banana)
-export const generateLocationImage = async (locationName: string): Promise<string> => {
-  const ai = getAiClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            text: `Create a photorealistic, high-quality 8k image of ${locationName}. Scenic, beautiful lighting, suitable for a travel postcard.`,
-          },
-        ],
-      },
-    });
-
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    for (const part of parts) {
-      if (part.inlineData && part.inlineData.data) {
-        return part.inlineData.data;
-      }
-    }
-    throw new Error("No image generated");
-  } catch (error) {
-    console.error("Image Gen Error:", error);
-    throw error;
-  }
+export const generateLocationImage = (
+  locationName: string,
+  options: BackgroundOptions = DEFAULT_BACKGROUND_OPTIONS,
+  variation = 0
+): Promise<ImageResult> => {
+  return scheduleRequest(() => getProvider().generateLocationImage(locationName, options, variation));
 };
 
 // 3. Composite/Edit Image (Nano Banana)
-export const compositeImages = async (
-  backgroundBase64: string,
-  foregroundBase64: string,
+export const compositeImages = (
+  background: ImageAsset,
+  foreground: ImageAsset,
   prompt: string
-): Promise<string> => {
-  const ai = getAiClient();
-  
-  const finalPrompt = `
-    Using the provided images:
-    1. The first image is the BACKGROUND/SETTING.
-    2. The second image is the PERSON/SUBJECT.
-    
-    Task: ${prompt || "Place the subject from the second image into the setting of the first image naturally. Match lighting and perspective."}
-  `;
+): Promise<ImageResult> => {
+  return scheduleRequest(() => getProvider().compositeImages(background, foreground, prompt));
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: backgroundBase64
-            }
-          },
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: foregroundBase64
-            }
-          },
-          {
-            text: finalPrompt,
-          },
-        ],
-      },
-    });
+// 4. Edit Existing Image (Nano Banana)
+export const editImage = (image: ImageAsset, prompt: string): Promise<ImageResult> => {
+  return scheduleRequest(() => getProvider().editImage(image, prompt));
+};
 
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    for (const part of parts) {
-      if (part.inlineData && part.inlineData.data) {
-        return part.inlineData.data;
-      }
-    }
-    throw new Error("No composite image generated");
-  } catch (error) {
-    console.error("Composite Error:", error);
-    throw error;
-  }
+// 4b. Subject Mask for background removal (white = subject)
+export const generateSubjectMask = (image: ImageAsset): Promise<ImageAsset> => {
+  return scheduleRequest(() => getProvider().generateSubjectMask(image));
 };
 
-// 4. Edit Existing Image (Nano Banana)
-export const editImage = async (imageBase64: string, prompt: string): Promise<string> => {
-  const ai = getAiClient();
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
-      contents: {
-        parts: [
-          {
-            inlineData: {
-              mimeType: 'image/png',
-              data: imageBase64
-            }
-          },
-          {
-            text: prompt,
-          },
-        ],
-      },
-    });
+// 4c. Region Edit: the model's output is kept only inside the mask (PNG, alpha = change)
+export const editImageRegion = async (image: ImageAsset, mask: ImageAsset, prompt: string): Promise<ImageResult> => {
+  const result = await scheduleRequest(() => getProvider().editImageRegion(image, mask, prompt));
+  if (result.kind !== 'image') return result;
+  return { kind: 'image', image: await blendWithMask(image, result.image, mask) };
+};
 
-    const parts = response.candidates?.[0]?.content?.parts || [];
-    for (const part of parts) {
-      if (part.inlineData && part.inlineData.data) {
-        return part.inlineData.data;
-      }
-    }
-    
-    // Log text response for debugging if no image found
-    const textPart = parts.find(p => p.text);
-    if (textPart) {
-        console.warn("Model returned text instead of image:", textPart.text);
-    }
+// 4d. Rephrasings of a prompt the image model refused or that was blocked
+export const suggestPromptRewrites = (prompt: string, refusal: ImageRefusal): Promise<string[]> => {
+  return scheduleRequest(() => getProvider().suggestPromptRewrites(prompt, refusal));
+};
 
-    throw new Error("No edited image generated");
-  } catch (error) {
-    console.error("Edit Error:", error);
-    throw error;
-  }
+// 4e. Detailed rewrite of a short prompt, in image-editing or video (camera and motion) language
+export const enhancePrompt = (prompt: string, image: ImageAsset | null, style: PromptStyle): Promise<string> => {
+  return scheduleRequest(() => getProvider().enhancePrompt(prompt, image, style));
 };
 
-// 5. Generate Video (Veo)
-export const generateVeoVideo = async (
-  imageBase64: string,
+// 5. Start Video Generation (Veo). Use services/videoJobs to poll it to completion.
+// Never retried: the call is billed, and one that timed out may still have started a job.
+export const startVideoGeneration = (
+  image: ImageAsset,
   prompt: string,
-  aspectRatio: "16:9" | "9:16" = "16:9"
+  settings: VideoSettings = DEFAULT_VIDEO_SETTINGS,
+  guidance: VideoGuidance = {}
 ): Promise<string> => {
-  // Helper to make the API call
-  const performGeneration = async () => {
-    // Create new client instance right before call to ensure fresh auth from key selection
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    return await ai.models.generateVideos({
-      model: 'veo-3.1-fast-generate-preview',
-      prompt: prompt || "Animate this scene naturally.",
-      image: {
-        imageBytes: imageBase64,
-        mimeType: 'image/png',
-      },
-      config: {
-        numberOfVideos: 1,
-        resolution: '1080p',
-        aspectRatio: aspectRatio
-      }
-    });
-  };
-
-  let operation;
-  
-  try {
-    // Try generation first. 
-    operation = await performGeneration();
-  } catch (error: any) {
-    console.error("Veo generation error:", error);
-
-    // Check for 404 "Requested entity was not found" in various formats
-    // This error typically means the user hasn't selected a billing project for Veo
-    const errorMsg = error?.message || error?.toString() || "";
-    const nestedErrorMsg = error?.error?.message || "";
-    const nestedErrorCode = error?.error?.code;
-    const errorString = JSON.stringify(error);
-    
-    const isNotFound = 
-        error.status === 404 || 
-        error.code === 404 || 
-        nestedErrorCode === 404 ||
-        errorMsg.includes("Requested entity was not found") ||
-        nestedErrorMsg.includes("Requested entity was not found") ||
-        errorString.includes("Requested entity was not found");
-
-    if (isNotFound && window.aistudio) {
-        console.log("Veo 404 Error caught (Project/Key selection required). Triggering key selection...");
-        // Trigger the key selection dialog
-        await window.aistudio.openSelectKey();
-        
-        // Add a small delay to ensure the key selection state has propagated effectively
-        await new Promise(resolve => setTimeout(resolve, 1000)); 
-        
-        // Retry the operation once after selection
-        operation = await performGeneration();
-    } else {
-      // If not a 404 or not in AI Studio environment, rethrow
-      throw error;
-    }
-  }
+  return scheduleRequest(() => getProvider().startVideoGeneration(image, prompt, settings, guidance), { retries: 0 });
+};
 
-  // Poll for completion
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  while (!operation.done) {
-    await new Promise(resolve => setTimeout(resolve, 5000)); // Wait 5s
-    operation = await ai.operations.getVideosOperation({ operation: operation });
-  }
+// 6. Check on a running video operation
+export const getVideoOperation = (operationName: string): Promise<VideoOperationStatus> => {
+  return scheduleRequest(() => getProvider().getVideoOperation(operationName));
+};
 
-  const videoUri = operation.response?.generatedVideos?.[0]?.video?.uri;
-  if (!videoUri) throw new Error("No video URI returned");
+// 6b. Let go of an operation nobody will poll again. Local only, so it isn't queued.
+export const discardVideoOperation = (operationName: string) => {
+  getProvider().discardVideoOperation?.(operationName);
+};
 
-  // Fetch the actual video bytes (proxied via the download link + API Key)
-  const downloadUrl = `${videoUri}&key=${process.env.API_KEY}`;
-  return downloadUrl;
-};
\ No newline at end of file
+// 7. Download a finished video as a Blob
+export const fetchVideo = (videoUri: string): Promise<Blob> => {
+  return scheduleRequest(() => getProvider().fetchVideo(videoUri));
+};
@@ -0,0 +1,183 @@
+import { CameraKeyframe, ImageAsset, LocalMotionSettings } from "../types";
+import { generateSubjectMask } from "./geminiService";
+import { recordCanvas, recordFrames } from "./timeline";
+import { cutOutWithMask, loadImageAsset } from "../utils";
+
+// "Ken Burns" animation without the video model: a virtual camera pans and zooms over the
+// composite along keyframes, and the frames are recorded in the browser with MediaRecorder.
+// With the subject cut out onto its own layer, it moves further than the background (parallax),
+// and the hole it leaves behind is filled from the pixels around it.
+
+export type MotionPreset = 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'rise';
+
+export const MOTION_PRESETS: { value: MotionPreset; label: string; keyframes: CameraKeyframe[] }[] = [
+  { value: 'zoom-in', label: 'Slow Zoom In', keyframes: [{ time: 0, x: 0.5, y: 0.5, zoom: 1 }, { time: 1, x: 0.5, y: 0.5, zoom: 1.35 }] },
+  { value: 'zoom-out', label: 'Slow Zoom Out', keyframes: [{ time: 0, x: 0.5, y: 0.5, zoom: 1.35 }, { time: 1, x: 0.5, y: 0.5, zoom: 1 }] },
+  { value: 'pan-left', label: 'Pan Left', keyframes: [{ time: 0, x: 0.7, y: 0.5, zoom: 1.25 }, { time: 1, x: 0.3, y: 0.5, zoom: 1.25 }] },
+  { value: 'pan-right', label: 'Pan Right', keyframes: [{ time: 0, x: 0.3, y: 0.5, zoom: 1.25 }, { time: 1, x: 0.7, y: 0.5, zoom: 1.25 }] },
+  { value: 'rise', label: 'Rise & Reveal', keyframes: [{ time: 0, x: 0.5, y: 0.7, zoom: 1.4 }, { time: 1, x: 0.5, y: 0.45, zoom: 1.05 }] },
+];
+
+export const LOCAL_DURATIONS = [4, 6, 8, 10, 15];
+export const MAX_ZOOM = 3;
+export const MAX_PARALLAX = 1;
+const RENDER_FPS = 30;
+
+export const DEFAULT_LOCAL_MOTION: LocalMotionSettings = {
+  keyframes: MOTION_PRESETS[0].keyframes,
+  aspectRatio: '16:9',
+  resolution: '720p',
+  durationSeconds: 6,
+  parallax: 0,
+};
+
+// --- Camera path ---
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+// Eases in and out of every keyframe, so the camera never starts or stops abruptly
+const smoothstep = (t: number) => t * t * (3 - 2 * t);
+
+export const cameraAt = (keyframes: CameraKeyframe[], t: number): CameraKeyframe => {
+  const next = keyframes.findIndex(k => k.time >= t);
+  if (next <= 0) return { ...keyframes[next === 0 ? 0 : keyframes.length - 1], time: t };
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  const local = smoothstep(to.time > from.time ? (t - from.time) / (to.time - from.time) : 1);
+  return { time: t, x: lerp(from.x, to.x, local), y: lerp(from.y, to.y, local), zoom: lerp(from.zoom, to.zoom, local) };
+};
+
+// Adds a keyframe, or replaces one at the same time, keeping the list sorted
+export const setKeyframe = (keyframes: CameraKeyframe[], keyframe: CameraKeyframe): CameraKeyframe[] =>
+  [...keyframes.filter(k => Math.abs(k.time - keyframe.time) > 0.001), keyframe].sort((a, b) => a.time - b.time);
+
+export const outputSize = (motion: LocalMotionSettings) => {
+  const short = motion.resolution === '1080p' ? 1080 : 720;
+  const long = Math.round(short * 16 / 9);
+  return motion.aspectRatio === '16:9' ? { width: long, height: short } : { width: short, height: long };
+};
+
+// --- Drawing ---
+
+export interface MotionLayers {
+  background: HTMLImageElement | HTMLCanvasElement; // Without the subject when it has its own layer
+  subject?: HTMLImageElement; // The subject alone, the same size as the background
+}
+
+const createLayer = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.ceil(width));
+  canvas.height = Math.max(1, Math.ceil(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+// Erases the subject from the background and fills the hole with a blur of its surroundings,
+// so the moving subject layer doesn't uncover a second copy of itself. Each half-size level
+// averages only the pixels that are left, and the holes are filled from the smallest level up.
+const fillBehindSubject = (background: HTMLImageElement, subject: HTMLImageElement): HTMLCanvasElement => {
+  const base = createLayer(background.width, background.height);
+  base.ctx.drawImage(background, 0, 0);
+  // A little wider than the cutout, so the subject's soft edge doesn't smear into the fill
+  base.ctx.globalCompositeOperation = 'destination-out';
+  base.ctx.filter = `blur(${Math.max(2, Math.round(Math.max(background.width, background.height) / 200))}px)`;
+  for (let i = 0; i < 3; i++) base.ctx.drawImage(subject, 0, 0, background.width, background.height);
+  base.ctx.filter = 'none';
+
+  const levels = [base];
+  while (levels[levels.length - 1].canvas.width > 1 || levels[levels.length - 1].canvas.height > 1) {
+    const { canvas } = levels[levels.length - 1];
+    const level = createLayer(canvas.width / 2, canvas.height / 2);
+    level.ctx.drawImage(canvas, 0, 0, level.canvas.width, level.canvas.height);
+    levels.push(level);
+  }
+  for (let i = levels.length - 2; i >= 0; i--) {
+    const { canvas, ctx } = levels[i];
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.drawImage(levels[i + 1].canvas, 0, 0, canvas.width, canvas.height);
+    ctx.globalCompositeOperation = 'source-over';
+  }
+  return base.canvas;
+};
+
+export const loadMotionLayers = async (image: ImageAsset, separateSubject: boolean): Promise<MotionLayers> => {
+  const background = await loadImageAsset(image);
+  if (!separateSubject) return { background };
+  const subject = await loadImageAsset(await cutOutWithMask(image, await generateSubjectMask(image)));
+  return { background: fillBehindSubject(background, subject), subject };
+};
+
+// Moves the camera's center so its view never leaves the image
+const keepInside = (camera: CameraKeyframe, imageWidth: number, imageHeight: number, scale: number, width: number, height: number) => {
+  const halfW = width / scale / 2 / imageWidth;
+  const halfH = height / scale / 2 / imageHeight;
+  return { ...camera, x: clamp(camera.x, halfW, 1 - halfW), y: clamp(camera.y, halfH, 1 - halfH) };
+};
+
+const drawLayer = (ctx: CanvasRenderingContext2D, layer: HTMLImageElement | HTMLCanvasElement, camera: CameraKeyframe, scale: number) => {
+  const { width, height } = ctx.canvas;
+  ctx.setTransform(scale, 0, 0, scale, width / 2 - camera.x * layer.width * scale, height / 2 - camera.y * layer.height * scale);
+  ctx.drawImage(layer, 0, 0);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+};
+
+// Draws the frame at t (0-1) onto the whole canvas. Used by both the preview and the render.
+export const drawMotionFrame = (ctx: CanvasRenderingContext2D, layers: MotionLayers, motion: LocalMotionSettings, t: number) => {
+  const { width, height } = ctx.canvas;
+  const { background, subject } = layers;
+  // At zoom 1 the image covers the frame
+  const cover = Math.max(width / background.width, height / background.height);
+  const frame = (camera: CameraKeyframe) => {
+    const scale = cover * Math.max(1, camera.zoom);
+    return { camera: keepInside(camera, background.width, background.height, scale, width, height), scale };
+  };
+
+  const current = frame(cameraAt(motion.keyframes, t));
+  ctx.clearRect(0, 0, width, height);
+  drawLayer(ctx, background, current.camera, current.scale);
+  if (!subject || motion.parallax <= 0) return;
+
+  // The subject lines up with the background on the first frame and exaggerates the camera's moves from there
+  const start = frame(cameraAt(motion.keyframes, 0));
+  const depth = 1 + motion.parallax;
+  const camera = {
+    ...current.camera,
+    x: lerp(start.camera.x, current.camera.x, depth),
+    y: lerp(start.camera.y, current.camera.y, depth),
+  };
+  drawLayer(ctx, subject, camera, start.scale * Math.pow(current.scale / start.scale, depth));
+};
+
+// --- Rendering ---
+
+export interface LocalRenderOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0-1
+}
+
+// Records the animation in real time, so rendering takes as long as the video
+export const renderLocalAnimation = async (layers: MotionLayers, motion: LocalMotionSettings, options: LocalRenderOptions = {}): Promise<Blob> => {
+  const { signal, onProgress } = options;
+  const { width, height } = outputSize(motion);
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+
+  drawMotionFrame(ctx, layers, motion, 0);
+  const recording = recordCanvas(canvas, RENDER_FPS);
+  try {
+    const durationMs = motion.durationSeconds * 1000;
+    await recordFrames(recording, (elapsedMs) => {
+      const t = Math.min(1, elapsedMs / durationMs);
+      drawMotionFrame(ctx, layers, motion, t);
+      onProgress?.(t);
+      return t >= 1;
+    }, { signal });
+    return await recording.stop();
+  } finally {
+    recording.cancel();
+  }
+};
@@ -0,0 +1,51 @@
+import { AIError, classifyError } from "./aiErrors";
+
+// Non-blocking error toasts. Anything can raise one; ToastHost renders them.
+
+export interface Toast {
+  id: string;
+  title: string; // What the user was trying to do
+  message: string; // Why it failed
+  detail?: string; // Raw cause, shown on demand
+  code?: AIError['code'];
+  retry?: () => void;
+}
+
+const AUTO_DISMISS_MS = 8000;
+const AUTO_DISMISS_WITH_RETRY_MS = 20000;
+const MAX_TOASTS = 4;
+
+let toasts: Toast[] = [];
+const listeners = new Set<() => void>();
+
+const emit = () => listeners.forEach(listener => listener());
+
+export const subscribeToasts = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getToasts = () => toasts;
+
+export const dismissToast = (id: string) => {
+  toasts = toasts.filter(t => t.id !== id);
+  emit();
+};
+
+export const showErrorToast = (title: string, error: unknown, retry?: () => void) => {
+  console.error(title, error);
+  const classified = classifyError(error);
+  const toast: Toast = {
+    id: crypto.randomUUID(),
+    title,
+    message: classified.message,
+    detail: classified.detail,
+    code: classified.code,
+    retry,
+  };
+  toasts = [...toasts, toast].slice(-MAX_TOASTS);
+  emit();
+  setTimeout(() => dismissToast(toast.id), retry ? AUTO_DISMISS_WITH_RETRY_MS : AUTO_DISMISS_MS);
+};
@@ -0,0 +1,132 @@
+import { AppStep, ImageAsset, Project, ProjectSummary } from "../types";
+
+// Saves whole sessions (images, edit history and video Blobs) to IndexedDB so a refresh
+// or a closed tab never throws away paid generation work.
+
+const DB_NAME = 'robo-ai';
+const DB_VERSION = 1;
+const PROJECT_STORE = 'projects';
+const CURRENT_PROJECT_KEY = 'roboai.currentProjectId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECT_STORE)) {
+          const store = db.createObjectStore(PROJECT_STORE, { keyPath: 'id' });
+          store.createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(PROJECT_STORE, mode);
+    const request = makeRequest(transaction.objectStore(PROJECT_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createProject = (): Project => {
+  const now = Date.now();
+  return {
+    id: crypto.randomUUID(),
+    name: 'Untitled project',
+    createdAt: now,
+    updatedAt: now,
+    step: AppStep.SEARCH,
+    query: '',
+    locationName: '',
+    locationImage: null,
+    layers: [],
+    composites: [],
+    currentCompositeId: null,
+    finalComposite: null,
+    videos: [],
+    timeline: [],
+  };
+};
+
+export const getProjectThumbnail = (project: Project): ImageAsset | null => {
+  return project.finalComposite
+    || project.composites.find(c => c.id === project.currentCompositeId)?.image
+    || project.composites[project.composites.length - 1]?.image
+    || project.locationImage
+    || null;
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const projects = await runRequest<Project[]>('readonly', store => store.getAll());
+  return projects
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(project => ({
+      id: project.id,
+      name: project.name,
+      updatedAt: project.updatedAt,
+      thumbnail: getProjectThumbnail(project),
+      compositeCount: project.composites.length,
+      videoCount: project.videos.length,
+    }));
+};
+
+export const getProject = async (id: string): Promise<Project | null> => {
+  const project = await runRequest<Project | undefined>('readonly', store => store.get(id));
+  return project ?? null;
+};
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await runRequest('readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(id));
+  if (getCurrentProjectId() === id) setCurrentProjectId(null);
+};
+
+export const duplicateProject = async (id: string): Promise<Project> => {
+  const original = await getProject(id);
+  if (!original) throw new Error(`Project ${id} not found`);
+
+  const now = Date.now();
+  const copy: Project = {
+    ...original,
+    id: crypto.randomUUID(),
+    name: `${original.name} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await saveProject(copy);
+  return copy;
+};
+
+// --- Last opened project, so a reload lands back in it ---
+
+export const getCurrentProjectId = (): string | null => {
+  return localStorage.getItem(CURRENT_PROJECT_KEY);
+};
+
+export const setCurrentProjectId = (id: string | null) => {
+  if (id) {
+    localStorage.setItem(CURRENT_PROJECT_KEY, id);
+  } else {
+    localStorage.removeItem(CURRENT_PROJECT_KEY);
+  }
+};
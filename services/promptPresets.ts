@@ -0,0 +1,131 @@
+import { PromptCategory, PromptPreset } from "../types";
+
+// Prompt presets for the editor and the animator. Built-in presets ship with the app; the user's
+// own are kept in localStorage and can be exported to a JSON file, so a team can share a house style.
+
+const STORAGE_KEY = 'roboai.promptPresets';
+const FILE_FORMAT = 'roboai.promptPresets';
+const FILE_VERSION = 1;
+
+export interface PromptVariables {
+  location: string;
+  subject: string;
+}
+
+export const PROMPT_VARIABLES: { name: keyof PromptVariables; description: string }[] = [
+  { name: 'location', description: 'The location name' },
+  { name: 'subject', description: '"the subject" or "the subjects"' },
+];
+
+export const PROMPT_CATEGORIES: { value: PromptCategory; label: string }[] = [
+  { value: 'composite', label: 'Composite' },
+  { value: 'edit', label: 'Edit' },
+  { value: 'animate', label: 'Animation' },
+];
+
+// --- Base instructions ---
+// What the composite strategies send around the user's own prompt
+
+export const REFINE_INSTRUCTION = "Make this image look photorealistic and natural.";
+export const REFINE_DEFAULT_TEMPLATE = "Make this composite image look photorealistic. Fix lighting, shadows, and perspective to make {subject} blend naturally into the environment.";
+export const AI_COMPOSITE_TEMPLATE = "Place {subject} from the second image into the setting of the first image, at the position and size shown in the second image. Match lighting, shadows and perspective so the result looks like a single photograph.";
+
+const builtIn = (id: string, category: PromptCategory, name: string, template: string): PromptPreset => ({
+  id: `builtin-${id}`,
+  name,
+  category,
+  template,
+  builtIn: true,
+});
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+  builtIn('golden-hour', 'composite', 'Golden hour', "Warm golden-hour sunlight over {location}, with long soft shadows cast by {subject}."),
+  builtIn('overcast', 'composite', 'Soft overcast', "Soft overcast light with no harsh shadows. Match the colour grading of {subject} to {location}."),
+  builtIn('contact-shadows', 'composite', 'Grounded', "Add contact shadows under {subject} and match the camera height and lens of the background."),
+  builtIn('sunset', 'edit', 'Sunset', "Change the lighting to a sunset over {location}, keeping {subject} unchanged."),
+  builtIn('retro', 'edit', 'Retro filter', "Add a retro film filter with faded colours and light grain."),
+  builtIn('painting', 'edit', 'Painting', "Make it look like an oil painting of {location}."),
+  builtIn('slow-pan', 'animate', 'Slow pan', "A cinematic slow pan to the right across {location}."),
+  builtIn('wave', 'animate', 'Wave', "In {location}, {subject} turns and waves at the camera."),
+  builtIn('wind', 'animate', 'Wind', "Leaves and hair blowing gently in the wind, with the camera holding still."),
+];
+
+export const describeSubjects = (count: number) => count > 1 ? 'the subjects' : 'the subject';
+
+// Placeholders without a value are left as typed, so a typo shows up in the prompt instead of vanishing
+export const fillPromptTemplate = (template: string, variables: Partial<PromptVariables>) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    (Object.hasOwn(variables, name) && variables[name as keyof PromptVariables]) || match
+  );
+
+// --- User presets ---
+
+const isPreset = (value: unknown): value is Pick<PromptPreset, 'name' | 'category' | 'template'> => {
+  if (!value || typeof value !== 'object') return false;
+  const { name, category, template } = value as Record<string, unknown>;
+  return typeof name === 'string' && !!name.trim()
+    && typeof template === 'string' && !!template.trim()
+    && PROMPT_CATEGORIES.some(c => c.value === category);
+};
+
+export const getUserPresets = (): PromptPreset[] => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return [];
+    const presets: unknown = JSON.parse(raw);
+    return Array.isArray(presets) ? presets.filter((p): p is PromptPreset => isPreset(p) && typeof (p as PromptPreset).id === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveUserPresets = (presets: PromptPreset[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
+
+export const getPresets = (category: PromptCategory): PromptPreset[] =>
+  [...BUILT_IN_PRESETS, ...getUserPresets()].filter(p => p.category === category);
+
+// A preset with the same name in the same category is replaced rather than duplicated
+const mergePresets = (current: PromptPreset[], added: PromptPreset[]) => [
+  ...current.filter(p => !added.some(a => a.category === p.category && a.name === p.name)),
+  ...added,
+];
+
+export const addUserPreset = (name: string, category: PromptCategory, template: string): PromptPreset => {
+  const preset: PromptPreset = { id: crypto.randomUUID(), name: name.trim(), category, template: template.trim() };
+  saveUserPresets(mergePresets(getUserPresets(), [preset]));
+  return preset;
+};
+
+export const deleteUserPreset = (id: string) => {
+  saveUserPresets(getUserPresets().filter(p => p.id !== id));
+};
+
+// --- Sharing ---
+
+// Only the user's presets are exported; everyone already has the built-in ones
+export const exportPresets = (): Blob => {
+  const presets = getUserPresets().map(({ name, category, template }) => ({ name, category, template }));
+  return new Blob([JSON.stringify({ format: FILE_FORMAT, version: FILE_VERSION, presets }, null, 2)], { type: 'application/json' });
+};
+
+// Adds the presets in an exported file and returns how many there were
+export const importPresets = async (blob: Blob): Promise<number> => {
+  let data: unknown;
+  try {
+    data = JSON.parse(await blob.text());
+  } catch (error) {
+    throw new Error("The file is not valid JSON.", { cause: error });
+  }
+  const file = data as { format?: unknown; presets?: unknown } | null;
+  // Also accept a bare array, for presets written by hand
+  const entries = Array.isArray(data) ? data : file?.format === FILE_FORMAT ? file.presets : null;
+  if (!Array.isArray(entries)) throw new Error("The file does not contain prompt presets.");
+  const presets = entries.filter(isPreset);
+  if (presets.length === 0) throw new Error("The file has no valid presets. Each needs a name, a category and a template.");
+
+  const imported = presets.map(({ name, category, template }) => ({ id: crypto.randomUUID(), name: name.trim(), category, template: template.trim() }));
+  saveUserPresets(mergePresets(getUserPresets(), imported));
+  return imported.length;
+};
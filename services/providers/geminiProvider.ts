@@ -0,0 +1,504 @@
+import { FinishReason, GenerateContentResponse, GenerateVideosOperation, GoogleGenAI, Part, SafetyRating, Type, VideoGenerationReferenceType } from "@google/genai";
+import { BackgroundOptions, ImageAsset, ImageRefusal, ImageResult, LocationResult, PromptStyle, VideoGuidance, VideoModel, VideoSettings } from "../../types";
+import { alphaMaskToBlackAndWhite } from "../../utils";
+import { buildLocationPrompt } from "../backgroundPresets";
+import { AIError, requireImage } from "../aiErrors";
+import { AIProvider, LocationSearchResult, VideoOperationStatus } from "./types";
+
+// Helper to get AI client.
+const getAiClient = () => {
+  return new GoogleGenAI({ apiKey: process.env.API_KEY });
+};
+
+const toInlineImage = (image: ImageAsset): Part => ({
+  inlineData: {
+    mimeType: image.mimeType,
+    data: image.data,
+  },
+});
+
+// First image in a response, keeping whatever MIME type the model chose to return
+const findImagePart = (parts: Part[]): ImageAsset | null => {
+  for (const part of parts) {
+    if (part.inlineData && part.inlineData.data) {
+      return { data: part.inlineData.data, mimeType: part.inlineData.mimeType || 'image/png' };
+    }
+  }
+  return null;
+};
+
+const SAFETY_FINISH_REASONS: string[] = [
+  FinishReason.SAFETY,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.BLOCKLIST,
+  FinishReason.SPII,
+  FinishReason.IMAGE_SAFETY,
+  FinishReason.IMAGE_PROHIBITED_CONTENT,
+];
+
+const BLOCK_LABELS: Record<string, string> = {
+  SPII: 'personal information',
+  BLOCKLIST: 'blocked terms',
+  IMAGE_PROHIBITED_CONTENT: 'prohibited image content',
+};
+
+// "HARM_CATEGORY_DANGEROUS_CONTENT" -> "dangerous content"
+const describeBlock = (value: string) =>
+  BLOCK_LABELS[value] ?? value.replace(/^HARM_CATEGORY_/, '').replace(/_/g, ' ').toLowerCase();
+
+const blockedCategory = (ratings: SafetyRating[] | undefined, reason: string) => {
+  const blocked = ratings?.find(r => r.blocked && r.category);
+  return describeBlock(blocked?.category || reason);
+};
+
+// What an image-model response amounts to: the image, a safety block (on the prompt or on the
+// output) or a text answer. Only a response with none of these is an error.
+const resultFromResponse = (response: GenerateContentResponse, emptyMessage: string): ImageResult => {
+  const feedback = response.promptFeedback;
+  if (feedback?.blockReason) {
+    return {
+      kind: 'blocked',
+      stage: 'prompt',
+      category: blockedCategory(feedback.safetyRatings, feedback.blockReason),
+      message: feedback.blockReasonMessage,
+    };
+  }
+
+  const candidate = response.candidates?.[0];
+  const image = findImagePart(candidate?.content?.parts || []);
+  if (image) return { kind: 'image', image };
+
+  if (candidate?.finishReason && SAFETY_FINISH_REASONS.includes(candidate.finishReason)) {
+    return {
+      kind: 'blocked',
+      stage: 'output',
+      category: blockedCategory(candidate.safetyRatings, candidate.finishReason),
+      message: candidate.finishMessage,
+    };
+  }
+  const text = candidate?.content?.parts?.map(p => p.text).filter(Boolean).join('\n').trim();
+  if (text) return { kind: 'text', text };
+
+  throw new AIError(emptyMessage, 'unknown', { detail: candidate?.finishReason });
+};
+
+// Maps grounding returns place ids as `places/{id}`; the bare id is what the Maps URLs expect.
+const normalizePlaceId = (placeId?: string): string | undefined => {
+  if (!placeId) return undefined;
+  return placeId.replace(/^places\//, '');
+};
+
+// Structured-output fallback: ask the model to extract the places it mentioned as JSON.
+// Used when the Maps tool answered in prose but attached no grounding chunks.
+const extractLocationsFromText = async (ai: GoogleGenAI, text: string): Promise<LocationResult[]> => {
+  const response = await ai.models.generateContent({
+    model: "gemini-2.5-flash",
+    contents: `Extract every specific real-world place recommended in the following text.
+      Use the place's proper name as the title, exactly as written (do not shorten or split hyphenated names).
+
+      ${text}`,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            title: { type: Type.STRING },
+            address: { type: Type.STRING },
+          },
+          required: ["title"],
+        },
+      },
+    },
+  });
+
+  const parsed = JSON.parse(response.text || "[]") as LocationResult[];
+  return parsed
+    .filter(place => place.title?.trim())
+    .map(place => ({ title: place.title.trim(), address: place.address?.trim() || undefined }));
+};
+
+// 1. Search Locations using Google Maps Grounding
+const searchLocations = async (query: string): Promise<LocationSearchResult> => {
+  const ai = getAiClient();
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `Find the top 5 best locations or specific spots matching this description: "${query}". 
+      Return a list of specific real-world places, including the address of each.`,
+      config: {
+        tools: [{ googleMaps: {} }],
+      },
+    });
+
+    const text = response.text || "No description found.";
+    const candidates = response.candidates || [];
+    const locations: LocationResult[] = [];
+    const seen = new Set<string>();
+
+    if (candidates.length > 0) {
+      const groundingMetadata = candidates[0].groundingMetadata;
+      groundingMetadata?.groundingChunks?.forEach((chunk) => {
+        const place = chunk.maps;
+        if (!place?.title) return;
+
+        const placeId = normalizePlaceId(place.placeId);
+        const key = placeId || place.title;
+        if (seen.has(key)) return;
+        seen.add(key);
+
+        locations.push({
+          title: place.title,
+          uri: place.uri,
+          placeId,
+        });
+      });
+    }
+
+    if (locations.length === 0 && response.text) {
+      try {
+        locations.push(...await extractLocationsFromText(ai, text));
+      } catch (error) {
+        console.warn("Structured location fallback failed:", error);
+      }
+    }
+
+    return { text, locations: locations.slice(0, 5) };
+  } catch (error) {
+    console.error("Search Error:", error);
+    throw error;
+  }
+};
+
+// 2. Generate a High-Quality Background Image for the Location (Nano Banana)
+const generateLocationImage = async (
+  locationName: string,
+  options: BackgroundOptions,
+  variation: number
+): Promise<ImageResult> => {
+  const ai = getAiClient();
+  try {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: {
+        parts: [
+          {
+            text: buildLocationPrompt(locationName, options, variation),
+          },
+        ],
+      },
+    });
+
+    return resultFromResponse(response, "No image generated");
+  } catch (error) {
+    console.error("Image Gen Error:", error);
+    throw error;
+  }
+};
+
+// 3. Composite/Edit Image (Nano Banana)
+const compositeImages = async (
+  background: ImageAsset,
+  foreground: ImageAsset,
+  prompt: string
+): Promise<ImageResult> => {
+  const ai = getAiClient();
+  
+  const finalPrompt = `
+    Using the provided images:
+    1. The first image is the BACKGROUND/SETTING.
+    2. The second image is the PERSON/SUBJECT.
+    
+    Task: ${prompt}
+  `;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: {
+        parts: [
+          toInlineImage(background),
+          toInlineImage(foreground),
+          {
+            text: finalPrompt,
+          },
+        ],
+      },
+    });
+
+    return resultFromResponse(response, "No composite image generated");
+  } catch (error) {
+    console.error("Composite Error:", error);
+    throw error;
+  }
+};
+
+// 4. Edit Existing Image (Nano Banana)
+const editImage = async (image: ImageAsset, prompt: string, extraImages: ImageAsset[] = []): Promise<ImageResult> => {
+  const ai = getAiClient();
+  try {
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: {
+        parts: [
+          toInlineImage(image),
+          ...extraImages.map(toInlineImage),
+          {
+            text: prompt,
+          },
+        ],
+      },
+    });
+
+    return resultFromResponse(response, "No edited image generated");
+  } catch (error) {
+    console.error("Edit Error:", error);
+    throw error;
+  }
+};
+
+// 4b. Subject Mask for background removal (Nano Banana)
+const SUBJECT_MASK_PROMPT = `Create a segmentation mask of the main subject (the person, people or object in the foreground) of this image.
+Output an image with exactly the same framing and dimensions where the subject is solid pure white (#FFFFFF)
+and everything else is solid pure black (#000000). No gradients, shading, outlines, other colors or text.`;
+
+const generateSubjectMask = async (image: ImageAsset): Promise<ImageAsset> => {
+  return requireImage(await editImage(image, SUBJECT_MASK_PROMPT));
+};
+
+// 4c. Region Edit (Nano Banana). The model has no mask input, so the mask goes in as a second picture.
+const editImageRegion = async (image: ImageAsset, mask: ImageAsset, prompt: string): Promise<ImageResult> => {
+  const maskPicture = await alphaMaskToBlackAndWhite(mask);
+  return editImage(
+    image,
+    `The second image is a mask for the first. Change only the area that is white in the mask: ${prompt}
+Keep everything in the black area exactly as it is, and return the full image with the same framing and dimensions.`,
+    [maskPicture]
+  );
+};
+
+// 4d. Prompt rewrites after a refusal or safety block (Gemini 2.5 Flash)
+const suggestPromptRewrites = async (prompt: string, refusal: ImageRefusal): Promise<string[]> => {
+  const ai = getAiClient();
+  const reason = refusal.kind === 'text'
+    ? `The image model replied with this text instead of an image: "${refusal.text}"`
+    : `The request was blocked by safety filters${refusal.category ? ` (${refusal.category})` : ''}.`;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: `A user asked an image generation model: "${prompt}"
+      ${reason}
+      Suggest up to 3 rewritten prompts that keep the user's intent but are likely to be accepted.
+      Each must be a complete prompt on its own, at most two sentences.`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+        },
+      },
+    });
+
+    const parsed = JSON.parse(response.text || "[]") as string[];
+    return parsed.map(s => s.trim()).filter(Boolean).slice(0, 3);
+  } catch (error) {
+    console.error("Prompt Rewrite Error:", error);
+    throw error;
+  }
+};
+
+// 4e. Prompt Enhancement: each style asks for the vocabulary its model responds to best
+const ENHANCE_GUIDES: Record<PromptStyle, string> = {
+  image: `The prompt goes to an image editing model together with the image. Describe the change concretely:
+      what to alter and where, lighting direction and colour temperature, materials, shadows and reflections,
+      and what must stay unchanged. Do not describe the whole image again.`,
+  video: `The prompt goes to a video model that animates the image. Describe the shot in film language:
+      camera movement (pan, tilt, dolly, orbit, push-in, static), its speed, what in the scene moves and how,
+      the pacing, and the mood and lighting. Keep everything physically plausible for a few seconds of footage.`,
+};
+
+const enhancePrompt = async (prompt: string, image: ImageAsset | null, style: PromptStyle): Promise<string> => {
+  const ai = getAiClient();
+  const instructions = `Rewrite this short prompt into a detailed one: "${prompt}"
+      ${ENHANCE_GUIDES[style]}
+      Keep the user's intent and any specific details they gave; don't invent new subjects.
+      ${image ? "Base the details on the attached image." : ""}
+      Answer with the rewritten prompt only, at most 4 sentences.`;
+
+  try {
+    const response = await ai.models.generateContent({
+      model: "gemini-2.5-flash",
+      contents: {
+        parts: image ? [toInlineImage(image), { text: instructions }] : [{ text: instructions }],
+      },
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { prompt: { type: Type.STRING } },
+          required: ["prompt"],
+        },
+      },
+    });
+
+    const parsed = JSON.parse(response.text || "{}") as { prompt?: string };
+    const enhanced = parsed.prompt?.trim();
+    if (!enhanced) throw new AIError("The model did not return a prompt.", 'unknown');
+    return enhanced;
+  } catch (error) {
+    console.error("Prompt Enhance Error:", error);
+    throw error;
+  }
+};
+
+// 5. Start Video Generation (Veo). Resolves to the operation name to poll.
+const VEO_MODELS: Record<VideoModel, string> = {
+  fast: 'veo-3.1-fast-generate-preview',
+  quality: 'veo-3.1-generate-preview',
+};
+
+const toVeoImage = (image: ImageAsset) => ({
+  imageBytes: image.data,
+  mimeType: image.mimeType,
+});
+
+const startVideoGeneration = async (
+  image: ImageAsset,
+  prompt: string,
+  settings: VideoSettings,
+  guidance: VideoGuidance
+): Promise<string> => {
+  // Veo takes either a start frame (optionally with an end frame) or reference images, not both
+  const references = guidance.referenceImages?.length ? guidance.referenceImages : undefined;
+
+  // Helper to make the API call
+  const performGeneration = async () => {
+    // Create new client instance right before call to ensure fresh auth from key selection
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    return await ai.models.generateVideos({
+      model: VEO_MODELS[settings.model],
+      prompt: prompt || "Animate this scene naturally.",
+      image: references ? undefined : toVeoImage(image),
+      config: {
+        numberOfVideos: settings.numberOfVideos,
+        resolution: settings.resolution,
+        aspectRatio: settings.aspectRatio,
+        durationSeconds: settings.durationSeconds,
+        negativePrompt: settings.negativePrompt || undefined,
+        seed: settings.seed,
+        personGeneration: settings.personGeneration,
+        lastFrame: !references && guidance.lastFrame ? toVeoImage(guidance.lastFrame) : undefined,
+        referenceImages: references?.map(reference => ({
+          image: toVeoImage(reference.image),
+          referenceType: reference.type === 'style' ? VideoGenerationReferenceType.STYLE : VideoGenerationReferenceType.ASSET,
+        })),
+      }
+    });
+  };
+
+  let operation;
+  
+  try {
+    // Try generation first. 
+    operation = await performGeneration();
+  } catch (error: any) {
+    console.error("Veo generation error:", error);
+
+    // Check for 404 "Requested entity was not found" in various formats
+    // This error typically means the user hasn't selected a billing project for Veo
+    const errorMsg = error?.message || error?.toString() || "";
+    const nestedErrorMsg = error?.error?.message || "";
+    const nestedErrorCode = error?.error?.code;
+    const errorString = JSON.stringify(error);
+    
+    const isNotFound = 
+        error.status === 404 || 
+        error.code === 404 || 
+        nestedErrorCode === 404 ||
+        errorMsg.includes("Requested entity was not found") ||
+        nestedErrorMsg.includes("Requested entity was not found") ||
+        errorString.includes("Requested entity was not found");
+
+    if (isNotFound && window.aistudio) {
+        console.log("Veo 404 Error caught (Project/Key selection required). Triggering key selection...");
+        // Trigger the key selection dialog
+        await window.aistudio.openSelectKey();
+        
+        // Add a small delay to ensure the key selection state has propagated effectively
+        await new Promise(resolve => setTimeout(resolve, 1000)); 
+        
+        // Retry the operation once after selection
+        operation = await performGeneration();
+    } else {
+      // If not a 404 or not in AI Studio environment, rethrow
+      throw error;
+    }
+  }
+
+  if (!operation.name) throw new Error("Veo did not return an operation name");
+  return operation.name;
+};
+
+// 6. Check on a running Veo operation. Only the name is needed, so this also works after a reload.
+const getVeoOperation = async (operationName: string): Promise<VideoOperationStatus> => {
+  const ai = getAiClient();
+  const pending = new GenerateVideosOperation();
+  pending.name = operationName;
+  const operation = await ai.operations.getVideosOperation({ operation: pending });
+
+  const progress = typeof operation.metadata?.progressPercent === 'number'
+    ? operation.metadata.progressPercent / 100
+    : undefined;
+
+  if (!operation.done) {
+    return { done: false, progress };
+  }
+
+  if (operation.error) {
+    const message = typeof operation.error.message === 'string' ? operation.error.message : JSON.stringify(operation.error);
+    return { done: true, error: message };
+  }
+
+  const videoUris = (operation.response?.generatedVideos || [])
+    .map(generated => generated.video?.uri)
+    .filter((uri): uri is string => !!uri);
+  if (videoUris.length === 0) {
+    const reasons = operation.response?.raiMediaFilteredReasons;
+    return {
+      done: true,
+      error: reasons?.length
+        ? `Video was blocked by safety filters: ${reasons.join(' ')}`
+        : "No video URI returned",
+    };
+  }
+
+  return { done: true, videoUris };
+};
+
+// 7. Download a finished Veo video. The key goes in a header so it never appears in a URL.
+const fetchVeoVideo = async (videoUri: string): Promise<Blob> => {
+  const response = await fetch(videoUri, {
+    headers: { 'x-goog-api-key': process.env.API_KEY || '' },
+  });
+  if (!response.ok) {
+    throw new Error(`Video download failed (${response.status} ${response.statusText})`);
+  }
+  return response.blob();
+};
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  searchLocations,
+  generateLocationImage,
+  compositeImages,
+  editImage,
+  editImageRegion,
+  generateSubjectMask,
+  suggestPromptRewrites,
+  enhancePrompt,
+  startVideoGeneration,
+  getVideoOperation: getVeoOperation,
+  fetchVideo: fetchVeoVideo,
+};
@@ -0,0 +1,20 @@
+import { geminiProvider } from "./geminiProvider";
+import { mockProvider } from "./mockProvider";
+import { AIProvider } from "./types";
+
+export type { AIProvider, LocationSearchResult, VideoOperationStatus } from "./types";
+
+const providers: Record<string, AIProvider> = {
+  gemini: geminiProvider,
+  mock: mockProvider,
+};
+
+// Selected with AI_PROVIDER in .env.local (defaults to gemini)
+export const getProvider = (): AIProvider => {
+  const name = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+  const provider = providers[name];
+  if (!provider) {
+    throw new Error(`Unknown AI_PROVIDER "${name}". Expected one of: ${Object.keys(providers).join(', ')}`);
+  }
+  return provider;
+};
@@ -0,0 +1,383 @@
+import { BackgroundOptions, ImageAsset, ImageRefusal, ImageResult, LocationResult, PromptStyle, VideoGuidance, VideoSettings } from "../../types";
+import { dataUrlToImageAsset, loadImageAsset, mergeImages } from "../../utils";
+import { AIProvider, LocationSearchResult, VideoOperationStatus } from "./types";
+
+// Offline backend for development and demos. Everything is derived from the inputs,
+// so the same query/prompt always produces the same places, images and video.
+
+const MOCK_LATENCY_MS = 600;
+const IMAGE_SIZE = 1024;
+
+const CANNED_PLACES: LocationResult[] = [
+  { title: "Saint-Tropez Harbour", address: "Quai Jean Jaurès, 83990 Saint-Tropez, France", placeId: "mock-saint-tropez" },
+  { title: "Shibuya Crossing", address: "2 Chome-2-1 Dogenzaka, Shibuya City, Tokyo, Japan", placeId: "mock-shibuya" },
+  { title: "Piazza Navona", address: "Piazza Navona, 00186 Roma RM, Italy", placeId: "mock-navona" },
+  { title: "Moraine Lake", address: "Moraine Lake Rd, Lake Louise, AB, Canada", placeId: "mock-moraine" },
+  { title: "Santorini Caldera Path", address: "Oia 847 02, Greece", placeId: "mock-santorini" },
+  { title: "Times Square", address: "Manhattan, NY 10036, United States", placeId: "mock-times-square" },
+  { title: "Bryggen Wharf", address: "Bryggen, 5003 Bergen, Norway", placeId: "mock-bryggen" },
+];
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const hashString = (value: string): number => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+// Small seeded PRNG (mulberry32) so procedural art is reproducible
+const createRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6D2B79F5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+const drawCaption = (ctx: CanvasRenderingContext2D, text: string, width: number, height: number) => {
+  ctx.fillStyle = 'rgba(15, 23, 42, 0.7)';
+  ctx.fillRect(0, height - 64, width, 64);
+  ctx.fillStyle = '#e2e8f0';
+  ctx.font = 'bold 28px sans-serif';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text.slice(0, 60), width / 2, height - 32, width - 32);
+};
+
+const renderLandscape = (seedText: string): ImageAsset => {
+  const random = createRandom(hashString(seedText));
+  const { canvas, ctx } = createCanvas(IMAGE_SIZE, IMAGE_SIZE);
+  const hue = Math.floor(random() * 360);
+
+  // Sky
+  const sky = ctx.createLinearGradient(0, 0, 0, IMAGE_SIZE);
+  sky.addColorStop(0, `hsl(${hue}, 70%, 35%)`);
+  sky.addColorStop(0.6, `hsl(${(hue + 40) % 360}, 80%, 70%)`);
+  sky.addColorStop(1, `hsl(${(hue + 80) % 360}, 60%, 80%)`);
+  ctx.fillStyle = sky;
+  ctx.fillRect(0, 0, IMAGE_SIZE, IMAGE_SIZE);
+
+  // Sun
+  ctx.fillStyle = `hsla(${(hue + 180) % 360}, 90%, 85%, 0.9)`;
+  ctx.beginPath();
+  ctx.arc(IMAGE_SIZE * (0.2 + random() * 0.6), IMAGE_SIZE * (0.15 + random() * 0.25), 40 + random() * 60, 0, Math.PI * 2);
+  ctx.fill();
+
+  // Layered ridges, darker towards the foreground
+  for (let layer = 0; layer < 4; layer++) {
+    const baseline = IMAGE_SIZE * (0.5 + layer * 0.12);
+    ctx.fillStyle = `hsl(${(hue + 200) % 360}, 30%, ${45 - layer * 10}%)`;
+    ctx.beginPath();
+    ctx.moveTo(0, IMAGE_SIZE);
+    for (let x = 0; x <= IMAGE_SIZE; x += IMAGE_SIZE / 16) {
+      ctx.lineTo(x, baseline - random() * 120);
+    }
+    ctx.lineTo(IMAGE_SIZE, IMAGE_SIZE);
+    ctx.closePath();
+    ctx.fill();
+  }
+
+  drawCaption(ctx, seedText, IMAGE_SIZE, IMAGE_SIZE);
+  return dataUrlToImageAsset(canvas.toDataURL('image/jpeg', 0.9));
+};
+
+// Deterministic stand-in for an AI edit: tint the image by the prompt and stamp the prompt on it
+const renderEdit = async (image: ImageAsset, prompt: string): Promise<ImageAsset> => {
+  const img = await loadImageAsset(image);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  const hue = hashString(prompt) % 360;
+
+  ctx.drawImage(img, 0, 0);
+  ctx.globalCompositeOperation = 'soft-light';
+  ctx.fillStyle = `hsla(${hue}, 70%, 50%, 0.35)`;
+  ctx.fillRect(0, 0, img.width, img.height);
+  ctx.globalCompositeOperation = 'source-over';
+
+  drawCaption(ctx, `[mock] ${prompt}`, img.width, img.height);
+  return dataUrlToImageAsset(canvas.toDataURL(image.mimeType));
+};
+
+// 1. Search Locations
+const searchLocations = async (query: string): Promise<LocationSearchResult> => {
+  await delay(MOCK_LATENCY_MS);
+  const start = hashString(query.toLowerCase()) % CANNED_PLACES.length;
+  const locations = Array.from({ length: 5 }, (_, i) => CANNED_PLACES[(start + i) % CANNED_PLACES.length]);
+
+  const text = [
+    `**Mock results for "${query}"** (offline provider, no network calls were made)`,
+    '',
+    ...locations.map((place, i) => `${i + 1}. **${place.title}**: ${place.address}`),
+  ].join('\n');
+
+  return { text, locations };
+};
+
+// Prompts containing [refuse] or [blocked] get that outcome instead of an image,
+// so the refusal and safety-block UI can be tried offline
+const MOCK_REFUSAL_MARKERS = /\[(refuse|blocked)\]/gi;
+
+const mockResult = async (prompt: string, render: () => ImageAsset | Promise<ImageAsset>): Promise<ImageResult> => {
+  const lower = prompt.toLowerCase();
+  if (lower.includes('[blocked]')) {
+    return { kind: 'blocked', stage: 'prompt', category: 'dangerous content', message: "[mock] The prompt contains [blocked]." };
+  }
+  if (lower.includes('[refuse]')) {
+    return { kind: 'text', text: "[mock] I can't create that image as described. I could make a version without the part you marked, though." };
+  }
+  return { kind: 'image', image: await render() };
+};
+
+// 2. Generate Location Image
+const generateLocationImage = async (
+  locationName: string,
+  options: BackgroundOptions,
+  variation: number
+): Promise<ImageResult> => {
+  await delay(MOCK_LATENCY_MS);
+  const conditions = [options.style, options.timeOfDay, options.weather, options.season].filter(o => o !== 'any');
+  return mockResult(locationName, () => renderLandscape(`${locationName} (${conditions.join(', ')}) #${variation + 1}`));
+};
+
+// 3. Composite Images
+const compositeImages = async (
+  background: ImageAsset,
+  foreground: ImageAsset,
+  prompt: string
+): Promise<ImageResult> => {
+  await delay(MOCK_LATENCY_MS);
+  const merged = await mergeImages(background, [{
+    id: 'mock-subject',
+    name: 'Subject',
+    image: foreground,
+    x: 0.5,
+    y: 0.6,
+    scale: 1,
+    rotation: 0,
+    flipX: false,
+    opacity: 1,
+  }]);
+  return mockResult(prompt, () => renderEdit(merged, prompt || "composite"));
+};
+
+// 4. Edit Image
+const editImage = async (image: ImageAsset, prompt: string): Promise<ImageResult> => {
+  await delay(MOCK_LATENCY_MS);
+  return mockResult(prompt, () => renderEdit(image, prompt));
+};
+
+// 4b. Subject Mask: a soft-edged ellipse where a centered portrait subject usually is
+const generateSubjectMask = async (image: ImageAsset): Promise<ImageAsset> => {
+  await delay(MOCK_LATENCY_MS);
+  const img = await loadImageAsset(image);
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, img.width, img.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.filter = `blur(${Math.round(Math.min(img.width, img.height) * 0.01)}px)`;
+  ctx.beginPath();
+  ctx.ellipse(img.width / 2, img.height * 0.55, img.width * 0.32, img.height * 0.45, 0, 0, Math.PI * 2);
+  ctx.fill();
+
+  return dataUrlToImageAsset(canvas.toDataURL('image/png'));
+};
+
+// 4c. Region Edit: the whole image is edited; the caller keeps only the masked part
+const editImageRegion = async (image: ImageAsset, mask: ImageAsset, prompt: string): Promise<ImageResult> => {
+  await delay(MOCK_LATENCY_MS);
+  return mockResult(prompt, () => renderEdit(image, prompt));
+};
+
+// 4d. Prompt rewrites: the prompt without the refusal markers, plus two canned rephrasings
+const suggestPromptRewrites = async (prompt: string, refusal: ImageRefusal): Promise<string[]> => {
+  await delay(MOCK_LATENCY_MS);
+  const cleaned = prompt.replace(MOCK_REFUSAL_MARKERS, '').replace(/\s+/g, ' ').trim() || "Make the scene look natural";
+  return [
+    cleaned,
+    `${cleaned}, in a calm, family-friendly style`,
+    `A tasteful, photorealistic take on: ${cleaned}`,
+  ];
+};
+
+// 4e. Prompt Enhancement: the prompt with a fixed, style-appropriate tail
+const MOCK_ENHANCEMENTS: Record<PromptStyle, string> = {
+  image: "Keep the lighting direction and colour temperature consistent with the scene, add soft contact shadows, and leave everything else unchanged.",
+  video: "Slow, steady dolly-in at eye level; subtle natural motion in the scene, gentle pacing and soft, even light throughout.",
+};
+
+const enhancePrompt = async (prompt: string, image: ImageAsset | null, style: PromptStyle): Promise<string> => {
+  await delay(MOCK_LATENCY_MS);
+  const cleaned = prompt.replace(/\s+/g, ' ').trim().replace(/[.!]*$/, '');
+  return `${cleaned.charAt(0).toUpperCase()}${cleaned.slice(1)}. ${MOCK_ENHANCEMENTS[style]}`;
+};
+
+// 5. Generate Video: a short slow push-in on the source image, recorded from a canvas.
+// Clips stay short whatever duration was asked for; each take drifts in its own direction.
+// An end frame is cross-faded in; with reference images the first one stands in for the start frame.
+const VIDEO_DURATION_MS = 3000;
+const MOCK_OPERATION_MS = 8000;
+
+const renderVideo = async (
+  image: ImageAsset,
+  prompt: string,
+  settings: VideoSettings,
+  guidance: VideoGuidance,
+  take: number
+): Promise<string> => {
+  const references = guidance.referenceImages ?? [];
+  const img = await loadImageAsset(references[0]?.image ?? image);
+  const endImg = guidance.lastFrame && references.length === 0 ? await loadImageAsset(guidance.lastFrame) : null;
+  const [long, short] = settings.resolution === '1080p' ? [1920, 1080] : [1280, 720];
+  const [width, height] = settings.aspectRatio === "16:9" ? [long, short] : [short, long];
+  const random = createRandom(hashString(prompt) + (settings.seed ?? 0) + take);
+  const drift = (random() - 0.5) * 0.16 * width;
+  const { canvas, ctx } = createCanvas(width, height);
+
+  const stream = canvas.captureStream(30);
+  const recorder = new MediaRecorder(stream, { mimeType: 'video/webm' });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => {
+    if (e.data.size > 0) chunks.push(e.data);
+  };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  // Cover-fit the source, then zoom in by up to 15% over the clip
+  const drawMoving = (source: HTMLImageElement, progress: number) => {
+    const scale = Math.max(width / source.width, height / source.height) * (1 + 0.15 * progress);
+    const drawWidth = source.width * scale;
+    const drawHeight = source.height * scale;
+    ctx.drawImage(source, (width - drawWidth) / 2 + drift * progress, (height - drawHeight) / 2, drawWidth, drawHeight);
+  };
+  const label = references.length > 0 ? `${references.length} reference${references.length > 1 ? 's' : ''}` : endImg ? 'to end frame' : '';
+  const drawFrame = (progress: number) => {
+    drawMoving(img, progress);
+    if (endImg) {
+      ctx.globalAlpha = progress;
+      drawMoving(endImg, progress);
+      ctx.globalAlpha = 1;
+    }
+    drawCaption(ctx, `[mock take ${take + 1}${label ? `, ${label}` : ''}] ${prompt || "Animate this scene naturally."}`, width, height);
+  };
+
+  drawFrame(0);
+  recorder.start();
+  const startedAt = performance.now();
+  await new Promise<void>(resolve => {
+    const tick = () => {
+      const progress = Math.min(1, (performance.now() - startedAt) / VIDEO_DURATION_MS);
+      drawFrame(progress);
+      if (progress < 1) {
+        requestAnimationFrame(tick);
+      } else {
+        resolve();
+      }
+    };
+    requestAnimationFrame(tick);
+  });
+  recorder.stop();
+  await stopped;
+
+  return URL.createObjectURL(new Blob(chunks, { type: 'video/webm' }));
+};
+
+// If one take fails, the ones that did render are released, since nobody will fetch them
+const renderTakes = async (image: ImageAsset, prompt: string, settings: VideoSettings, guidance: VideoGuidance): Promise<string[]> => {
+  const results = await Promise.allSettled(Array.from({ length: settings.numberOfVideos }, (_, take) => renderVideo(image, prompt, settings, guidance, take)));
+  const urls = results.flatMap(r => r.status === 'fulfilled' ? [r.value] : []);
+  const failure = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+  if (failure) {
+    urls.forEach(url => URL.revokeObjectURL(url));
+    throw failure.reason;
+  }
+  return urls;
+};
+
+interface MockOperation {
+  startedAt: number;
+  videos: Promise<string[]>;
+}
+
+// Operations only live in memory, so unlike Veo they cannot be resumed after a reload
+const mockOperations = new Map<string, MockOperation>();
+let mockOperationCount = 0;
+
+const startVideoGeneration = async (
+  image: ImageAsset,
+  prompt: string,
+  settings: VideoSettings,
+  guidance: VideoGuidance
+): Promise<string> => {
+  await delay(MOCK_LATENCY_MS);
+  const name = `mock-operations/${++mockOperationCount}-${hashString(prompt + image.data.slice(0, 256))}`;
+  const videos = renderTakes(image, prompt, settings, guidance);
+  // The failure is reported when the operation is polled; a job that is never polled must not leave an unhandled rejection
+  videos.catch(error => console.warn("Mock video rendering failed:", error));
+  mockOperations.set(name, { startedAt: Date.now(), videos });
+  return name;
+};
+
+const getVideoOperation = async (operationName: string): Promise<VideoOperationStatus> => {
+  const operation = mockOperations.get(operationName);
+  if (!operation) {
+    return { done: true, error: "Mock operation not found (mock jobs do not survive a page reload)" };
+  }
+
+  const progress = (Date.now() - operation.startedAt) / MOCK_OPERATION_MS;
+  if (progress < 1) {
+    return { done: false, progress };
+  }
+
+  mockOperations.delete(operationName);
+  try {
+    return { done: true, videoUris: await operation.videos };
+  } catch (error) {
+    return { done: true, error: (error instanceof Error && error.message) || "Mock video rendering failed" };
+  }
+};
+
+// The rendered clips only exist as object URLs, so a dropped job has to release them
+const discardVideoOperation = (operationName: string) => {
+  const operation = mockOperations.get(operationName);
+  if (!operation) return;
+  mockOperations.delete(operationName);
+  operation.videos.then(urls => urls.forEach(url => URL.revokeObjectURL(url)), () => {});
+};
+
+// Mock videos are already local object URLs; hand back the Blob and release the URL
+const fetchVideo = async (videoUri: string): Promise<Blob> => {
+  const response = await fetch(videoUri);
+  const blob = await response.blob();
+  URL.revokeObjectURL(videoUri);
+  return blob;
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  searchLocations,
+  generateLocationImage,
+  compositeImages,
+  editImage,
+  editImageRegion,
+  generateSubjectMask,
+  suggestPromptRewrites,
+  enhancePrompt,
+  startVideoGeneration,
+  getVideoOperation,
+  discardVideoOperation,
+  fetchVideo,
+};
@@ -0,0 +1,39 @@
+import { BackgroundOptions, ImageAsset, ImageRefusal, ImageResult, LocationResult, PromptStyle, VideoGuidance, VideoSettings } from "../../types";
+
+export interface LocationSearchResult {
+  text: string;
+  locations: LocationResult[];
+}
+
+export interface VideoOperationStatus {
+  done: boolean;
+  progress?: number; // 0-1, when the backend reports it
+  videoUris?: string[]; // One per take, set once done; pass each to fetchVideo to get the bytes
+  error?: string; // Set once done, if the operation failed
+}
+
+// Every backend the app can talk to implements this. Images carry their real MIME type both ways.
+export interface AIProvider {
+  name: string;
+  searchLocations: (query: string) => Promise<LocationSearchResult>;
+  // variation picks a different framing, so several candidates for one location differ
+  generateLocationImage: (locationName: string, options: BackgroundOptions, variation: number) => Promise<ImageResult>;
+  compositeImages: (background: ImageAsset, foreground: ImageAsset, prompt: string) => Promise<ImageResult>;
+  editImage: (image: ImageAsset, prompt: string) => Promise<ImageResult>;
+  // Edit aimed at the area painted in mask (PNG, alpha = change). The caller blends the result back itself.
+  editImageRegion: (image: ImageAsset, mask: ImageAsset, prompt: string) => Promise<ImageResult>;
+  // Rephrasings of a prompt that was refused or blocked, most promising first
+  suggestPromptRewrites: (prompt: string, refusal: ImageRefusal) => Promise<string[]>;
+  // A short prompt rewritten in detail for the target model, using the image it will be applied to when there is one
+  enhancePrompt: (prompt: string, image: ImageAsset | null, style: PromptStyle) => Promise<string>;
+  // Black/white mask of the main subject (white = keep), used for background removal
+  generateSubjectMask: (image: ImageAsset) => Promise<ImageAsset>;
+  // Video generation is long-running: start returns an operation name that can be polled (even after a reload)
+  // With reference images in guidance, image is ignored
+  startVideoGeneration: (image: ImageAsset, prompt: string, settings: VideoSettings, guidance: VideoGuidance) => Promise<string>;
+  getVideoOperation: (operationName: string) => Promise<VideoOperationStatus>;
+  // Frees whatever the backend holds locally for an operation that will never be polled again
+  discardVideoOperation?: (operationName: string) => void;
+  // Downloads a finished video. Credentials never end up in the returned data or any URL.
+  fetchVideo: (videoUri: string) => Promise<Blob>;
+}
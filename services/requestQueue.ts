@@ -0,0 +1,78 @@
+import { classifyError } from "./aiErrors";
+
+// Every model call goes through here: at most a few run at once (the rest wait their turn),
+// and rate-limit, server and network failures are retried with exponential backoff and jitter.
+// Whatever still fails is rethrown as a classified AIError.
+
+const MAX_CONCURRENT_REQUESTS = 3;
+const DEFAULT_RETRIES = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30 * 1000;
+
+export interface RequestOptions {
+  retries?: number;
+  signal?: AbortSignal;
+}
+
+let activeCount = 0;
+const waiting: (() => void)[] = [];
+
+const acquireSlot = (): Promise<void> => {
+  if (activeCount < MAX_CONCURRENT_REQUESTS) {
+    activeCount++;
+    return Promise.resolve();
+  }
+  return new Promise(resolve => waiting.push(resolve));
+};
+
+// Hands the slot straight to the next waiting request, if any
+const releaseSlot = () => {
+  const next = waiting.shift();
+  if (next) {
+    next();
+  } else {
+    activeCount--;
+  }
+};
+
+// Half of the exponential delay is fixed and half random, so parallel retries spread out
+const backoffDelay = (attempt: number) => {
+  const exponential = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return exponential / 2 + Math.random() * (exponential / 2);
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal?.reason);
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const scheduleRequest = async <T>(run: () => Promise<T>, options: RequestOptions = {}): Promise<T> => {
+  const { retries = DEFAULT_RETRIES, signal } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    let delay: number;
+
+    await acquireSlot();
+    try {
+      return await run();
+    } catch (error) {
+      const aiError = classifyError(error);
+      if (!aiError.retryable || attempt >= retries || signal?.aborted) throw aiError;
+      delay = Math.max(backoffDelay(attempt), aiError.retryAfterMs ?? 0);
+      console.warn(`Request failed (${aiError.code}), retrying in ${Math.round(delay / 1000)}s:`, aiError.detail || aiError.message);
+    } finally {
+      // Don't hold a slot while backing off
+      releaseSlot();
+    }
+
+    await sleep(Math.min(delay, MAX_DELAY_MS * 2), signal);
+  }
+};
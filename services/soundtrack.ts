@@ -0,0 +1,225 @@
+import { AudioClip, Caption, CaptionPosition, Soundtrack } from "../types";
+import { CanvasRecording, recordCanvas, recordFrames } from "./timeline";
+import { loadVideoBlob, seekVideo } from "../utils";
+
+// Voiceover, music and captions for a finished clip. The mix is made by playing the video into a
+// canvas (captions are drawn on top) while the sounds are scheduled in an audio graph, and
+// MediaRecorder captures both. Like the timeline export, this runs in real time.
+
+export const DEFAULT_SOUNDTRACK: Soundtrack = {
+  originalVolume: 1,
+  captions: [],
+  captionPosition: 'bottom',
+};
+
+export const DEFAULT_CAPTION_SECONDS = 3;
+
+// Music sits under the voice by default
+export const createAudioClip = (blob: Blob, name: string, kind: 'voiceover' | 'music'): AudioClip => ({
+  blob,
+  name,
+  volume: kind === 'music' ? 0.4 : 1,
+  offset: 0,
+  fadeIn: kind === 'music' ? 1 : 0,
+  fadeOut: kind === 'music' ? 2 : 0,
+});
+
+export const createCaption = (start: number, duration: number): Caption => ({
+  id: crypto.randomUUID(),
+  text: '',
+  start,
+  end: Math.min(duration, start + DEFAULT_CAPTION_SECONDS),
+});
+
+export const captionAt = (captions: Caption[], time: number) =>
+  captions.find(c => c.text.trim() && time >= c.start && time < c.end) ?? null;
+
+export const hasSoundtrack = (soundtrack: Soundtrack) =>
+  !!soundtrack.voiceover || !!soundtrack.music || soundtrack.captions.some(c => c.text.trim()) || soundtrack.originalVolume !== 1;
+
+// --- Voiceover recording ---
+
+export interface VoiceRecording {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+}
+
+export const startVoiceRecording = async (): Promise<VoiceRecording> => {
+  if (!navigator.mediaDevices?.getUserMedia) throw new Error("This browser does not support microphone recording.");
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<Blob>(resolve => {
+    recorder.onstop = () => {
+      // Release the microphone so the browser's recording indicator goes away
+      stream.getTracks().forEach(track => track.stop());
+      resolve(new Blob(chunks, { type: recorder.mimeType }));
+    };
+  });
+  recorder.start();
+  return {
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return stopped;
+    },
+    cancel: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+};
+
+// --- Captions ---
+
+// Wraps the caption to the frame and draws it on a dark band, scaled to the video's size
+export const drawCaption = (ctx: CanvasRenderingContext2D, text: string, position: CaptionPosition) => {
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(Math.min(width, height) * 0.055);
+  const lineHeight = fontSize * 1.25;
+  const padding = fontSize * 0.5;
+  ctx.save();
+  ctx.font = `600 ${fontSize}px system-ui, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const maxWidth = width * 0.85;
+  const lines: string[] = [];
+  for (const paragraph of text.trim().split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+
+  const blockHeight = lines.length * lineHeight + padding * 2;
+  const blockWidth = Math.min(width, Math.max(...lines.map(l => ctx.measureText(l).width)) + padding * 4);
+  const margin = height * 0.06;
+  const top = position === 'top' ? margin : height - margin - blockHeight;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+  ctx.fillRect((width - blockWidth) / 2, top, blockWidth, blockHeight);
+  ctx.fillStyle = '#ffffff';
+  lines.forEach((line, idx) => ctx.fillText(line, width / 2, top + padding + lineHeight * (idx + 0.5)));
+  ctx.restore();
+};
+
+// --- Mixing ---
+
+export interface SoundtrackRenderOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0-1
+}
+
+// Starts a sound at its offset with its volume envelope, relative to the context time the video starts at
+const scheduleClip = (
+  audioContext: AudioContext,
+  destination: AudioNode,
+  clip: AudioClip,
+  buffer: AudioBuffer,
+  startAt: number,
+  videoDuration: number,
+  loop: boolean
+) => {
+  if (clip.offset >= videoDuration) return;
+  const source = audioContext.createBufferSource();
+  source.buffer = buffer;
+  source.loop = loop;
+  const gain = audioContext.createGain();
+  source.connect(gain).connect(destination);
+
+  const start = startAt + clip.offset;
+  const end = startAt + (loop ? videoDuration : Math.min(videoDuration, clip.offset + buffer.duration));
+  const fadeIn = Math.min(clip.fadeIn, end - start);
+  const fadeOut = Math.min(clip.fadeOut, end - start - fadeIn);
+  gain.gain.setValueAtTime(fadeIn > 0 ? 0 : clip.volume, start);
+  if (fadeIn > 0) gain.gain.linearRampToValueAtTime(clip.volume, start + fadeIn);
+  if (fadeOut > 0) {
+    gain.gain.setValueAtTime(clip.volume, end - fadeOut);
+    gain.gain.linearRampToValueAtTime(0, end);
+  }
+  source.start(start);
+  source.stop(end);
+};
+
+const decodeClip = async (audioContext: AudioContext, clip: AudioClip) => {
+  try {
+    return await audioContext.decodeAudioData(await clip.blob.arrayBuffer());
+  } catch (error) {
+    throw new Error(`Could not read the audio in "${clip.name}"`, { cause: error });
+  }
+};
+
+// Records the video again with the soundtrack mixed in and the captions burned into the picture
+export const renderWithSoundtrack = async (videoBlob: Blob, soundtrack: Soundtrack, options: SoundtrackRenderOptions = {}): Promise<Blob> => {
+  const { signal, onProgress } = options;
+  const { video, duration, release } = await loadVideoBlob(videoBlob);
+  const audioContext = new AudioContext();
+  let recording: CanvasRecording | null = null;
+
+  try {
+    const [voiceover, music] = await Promise.all([
+      soundtrack.voiceover ? decodeClip(audioContext, soundtrack.voiceover) : null,
+      soundtrack.music ? decodeClip(audioContext, soundtrack.music) : null,
+    ]);
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    const mix = audioContext.createMediaStreamDestination();
+    const original = audioContext.createGain();
+    original.gain.value = soundtrack.originalVolume;
+    audioContext.createMediaElementSource(video).connect(original).connect(mix);
+    await audioContext.resume();
+
+    const drawFrame = () => {
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      const caption = captionAt(soundtrack.captions, video.currentTime);
+      if (caption) drawCaption(ctx, caption.text, soundtrack.captionPosition);
+    };
+
+    await seekVideo(video, 0);
+    drawFrame();
+    const activeRecording = recordCanvas(canvas, 30, mix.stream.getAudioTracks());
+    recording = activeRecording;
+    await video.play();
+    const startAt = audioContext.currentTime;
+    if (voiceover && soundtrack.voiceover) scheduleClip(audioContext, mix, soundtrack.voiceover, voiceover, startAt, duration, false);
+    if (music && soundtrack.music) scheduleClip(audioContext, mix, soundtrack.music, music, startAt, duration, true);
+
+    // Suspending the audio graph also holds the scheduled voiceover and music in place
+    await recordFrames(activeRecording, () => {
+      drawFrame();
+      onProgress?.(Math.min(1, video.currentTime / duration));
+      return video.ended || video.currentTime >= duration;
+    }, {
+      signal,
+      onPause: () => {
+        video.pause();
+        audioContext.suspend();
+      },
+      onResume: () => {
+        audioContext.resume();
+        video.play().catch(console.error);
+      },
+    });
+
+    const blob = await activeRecording.stop();
+    onProgress?.(1);
+    return blob;
+  } finally {
+    recording?.cancel();
+    video.pause();
+    release();
+    // Also stops any sound still scheduled
+    audioContext.close();
+  }
+};
@@ -0,0 +1,277 @@
+import { ImageAsset, TimelineClip, VideoRecord, VideoSettings } from "../types";
+import { captureVideoFrame, LoadedVideo, loadVideoBlob, seekVideo } from "../utils";
+import { runVideoJob, VideoJobOptions } from "./videoJobs";
+import { DEFAULT_VIDEO_SETTINGS } from "./videoPresets";
+
+// Builds a short out of saved videos: new shots and extensions are generated as regular
+// video jobs, and the sequence is exported by playing each clip into a canvas while
+// MediaRecorder captures it. Export runs in real time.
+
+// Trims never make a clip shorter than this
+export const MIN_CLIP_SECONDS = 0.5;
+const EXPORT_FPS = 30;
+
+// Preferred first; mp4 where the browser can record it, otherwise webm
+const EXPORT_MIME_TYPES = [
+  'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export const getExportMimeType = () =>
+  EXPORT_MIME_TYPES.find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+
+export interface CanvasRecording {
+  stop: () => Promise<Blob>;
+  cancel: () => void;
+  pause: () => void;
+  resume: () => void;
+}
+
+// Starts recording what is drawn on the canvas, with any audio tracks mixed in, in the export format
+export const recordCanvas = (canvas: HTMLCanvasElement, fps: number, audioTracks: MediaStreamTrack[] = []): CanvasRecording => {
+  const mimeType = getExportMimeType();
+  const recorder = new MediaRecorder(new MediaStream([...canvas.captureStream(fps).getVideoTracks(), ...audioTracks]), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<Blob>(resolve => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: mimeType.split(';')[0] }));
+  });
+  recorder.start();
+  return {
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      return stopped;
+    },
+    cancel: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+    pause: () => {
+      if (recorder.state === 'recording') recorder.pause();
+    },
+    resume: () => {
+      if (recorder.state === 'paused') recorder.resume();
+    },
+  };
+};
+
+export interface FrameLoopOptions {
+  signal?: AbortSignal;
+  onPause?: () => void; // The tab was hidden; pause whatever feeds the recording
+  onResume?: () => void;
+}
+
+// Calls `draw` every animation frame with the time recorded so far, until it returns true.
+// Browsers stop animation frames in background tabs, so the recording and its clock are
+// paused while the tab is hidden instead of capturing a frozen picture.
+export const recordFrames = (recording: CanvasRecording, draw: (elapsedMs: number) => boolean, options: FrameLoopOptions = {}) =>
+  new Promise<void>((resolve, reject) => {
+    const { signal, onPause, onResume } = options;
+    let recordedMs = 0; // Before the current stretch in the foreground
+    let resumedAt = 0;
+    let frame = 0;
+
+    const cleanup = () => {
+      cancelAnimationFrame(frame);
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const tick = () => {
+      if (draw(recordedMs + performance.now() - resumedAt)) {
+        cleanup();
+        resolve();
+      } else {
+        frame = requestAnimationFrame(tick);
+      }
+    };
+    const start = () => {
+      resumedAt = performance.now();
+      frame = requestAnimationFrame(tick);
+    };
+    const pause = () => {
+      recording.pause();
+      onPause?.();
+    };
+    const onVisibilityChange = () => {
+      if (document.hidden) {
+        cancelAnimationFrame(frame);
+        recordedMs += performance.now() - resumedAt;
+        pause();
+      } else {
+        recording.resume();
+        onResume?.();
+        start();
+      }
+    };
+    const onAbort = () => {
+      cleanup();
+      reject(new DOMException("Recording was cancelled", 'AbortError'));
+    };
+
+    if (signal?.aborted) return onAbort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    if (document.hidden) {
+      pause();
+    } else {
+      start();
+    }
+  });
+
+export const createClip = (videoId: string): TimelineClip => ({ id: crypto.randomUUID(), videoId, trimStart: 0 });
+
+// The played section of a clip, kept inside the video and at least MIN_CLIP_SECONDS long
+export const clipRange = (clip: TimelineClip, duration: number) => {
+  const start = Math.min(Math.max(0, clip.trimStart), Math.max(0, duration - MIN_CLIP_SECONDS));
+  const end = Math.max(Math.min(clip.trimEnd ?? duration, duration), Math.min(duration, start + MIN_CLIP_SECONDS));
+  return { start, end };
+};
+
+// A trim that runs to the end of the video is stored as unset, so it follows the video
+export const trimClip = (clip: TimelineClip, duration: number, start: number, end: number): TimelineClip => {
+  const range = clipRange({ ...clip, trimStart: start, trimEnd: end }, duration);
+  return { ...clip, trimStart: range.start, trimEnd: range.end < duration ? range.end : undefined };
+};
+
+// --- Generating shots ---
+
+// New shots match the video they continue, as a single take
+export const shotSettings = (video?: VideoRecord): VideoSettings => ({
+  ...(video?.settings ?? { ...DEFAULT_VIDEO_SETTINGS, aspectRatio: video?.aspectRatio ?? DEFAULT_VIDEO_SETTINGS.aspectRatio }),
+  numberOfVideos: 1,
+});
+
+// Timeline jobs are never persisted, so they can't replace the animator's resumable job
+export const generateShot = async (
+  image: ImageAsset,
+  prompt: string,
+  settings: VideoSettings,
+  options: VideoJobOptions = {}
+): Promise<Blob> => {
+  const [video] = await runVideoJob(image, prompt, settings, {}, { ...options, persist: false });
+  return video;
+};
+
+// Continues a clip from the last frame it shows, so the cut between the two is seamless
+export const extendClip = async (
+  clip: TimelineClip,
+  video: VideoRecord,
+  prompt: string,
+  options: VideoJobOptions = {}
+): Promise<Blob> => {
+  const lastFrame = await captureVideoFrame(video.blob, clip.trimEnd);
+  return generateShot(lastFrame, prompt, shotSettings(video), options);
+};
+
+// --- Export ---
+
+export interface ExportClip {
+  clip: TimelineClip;
+  video: VideoRecord;
+}
+
+export interface ExportOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0-1
+}
+
+// Letterboxes the frame into the output, since clips may differ in aspect ratio
+const drawContained = (ctx: CanvasRenderingContext2D, video: HTMLVideoElement) => {
+  const { width, height } = ctx.canvas;
+  const scale = Math.min(width / video.videoWidth, height / video.videoHeight);
+  const drawWidth = video.videoWidth * scale;
+  const drawHeight = video.videoHeight * scale;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(video, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+};
+
+const abortError = () => new DOMException("Export was cancelled", 'AbortError');
+
+// Plays the video from its current position into the canvas until `end`, holding it and its sound while the tab is hidden
+const playInto = async (
+  recording: CanvasRecording,
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  audioContext: AudioContext,
+  end: number,
+  onFrame: () => void,
+  signal?: AbortSignal
+) => {
+  await video.play();
+  await recordFrames(recording, () => {
+    drawContained(ctx, video);
+    onFrame();
+    return video.ended || video.currentTime >= end;
+  }, {
+    signal,
+    onPause: () => {
+      video.pause();
+      audioContext.suspend();
+    },
+    onResume: () => {
+      audioContext.resume();
+      video.play().catch(console.error);
+    },
+  });
+};
+
+// Renders the clips, in order and trimmed, into one video file at the first clip's size
+export const exportTimeline = async (clips: ExportClip[], options: ExportOptions = {}): Promise<Blob> => {
+  const { signal, onProgress } = options;
+  if (clips.length === 0) throw new Error("The timeline is empty");
+
+  const loaded: LoadedVideo[] = [];
+  const audioContext = new AudioContext();
+  let recording: CanvasRecording | null = null;
+
+  try {
+    // One element per clip, since a media element can only feed one audio source
+    for (const { video } of clips) {
+      if (signal?.aborted) throw abortError();
+      loaded.push(await loadVideoBlob(video.blob));
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = loaded[0].video.videoWidth;
+    canvas.height = loaded[0].video.videoHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    const audio = audioContext.createMediaStreamDestination();
+    loaded.forEach(({ video }) => audioContext.createMediaElementSource(video).connect(audio));
+    await audioContext.resume();
+
+    const segments = clips.map(({ clip }, idx) => ({ ...loaded[idx], ...clipRange(clip, loaded[idx].duration) }));
+    const total = segments.reduce((sum, s) => sum + (s.end - s.start), 0);
+
+    // Show the first frame before recording so the file doesn't open on black
+    await seekVideo(segments[0].video, segments[0].start);
+    drawContained(ctx, segments[0].video);
+    const activeRecording = recordCanvas(canvas, EXPORT_FPS, audio.stream.getAudioTracks());
+    recording = activeRecording;
+
+    let done = 0;
+    for (const segment of segments) {
+      await seekVideo(segment.video, segment.start);
+      await playInto(activeRecording, ctx, segment.video, audioContext, segment.end, () => {
+        onProgress?.(Math.min(1, (done + segment.video.currentTime - segment.start) / total));
+      }, signal);
+      segment.video.pause();
+      done += segment.end - segment.start;
+    }
+
+    const blob = await activeRecording.stop();
+    onProgress?.(1);
+    return blob;
+  } finally {
+    recording?.cancel();
+    loaded.forEach(({ video, release }) => {
+      video.pause();
+      release();
+    });
+    audioContext.close();
+  }
+};
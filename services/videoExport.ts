@@ -0,0 +1,371 @@
+import { loadVideoBlob, seekVideo } from "../utils";
+
+// Turns a generated video into animated GIF, animated WebP or a still PNG, entirely in the
+// browser. Frames are sampled by seeking the video; the GIF encoder is our own, WebP frames come
+// from the browser's still-image encoder and are packed into an animated WebP container.
+
+export type AnimationFormat = 'gif' | 'webp';
+
+export interface FrameRange {
+  start: number; // Seconds
+  end: number; // Seconds
+  fps: number;
+  width: number; // Output width in pixels; the height follows the video's aspect ratio
+}
+
+export interface ExportProgressOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: number) => void; // 0-1
+}
+
+export const EXPORT_WIDTHS = [240, 320, 480, 640, 960];
+export const EXPORT_FPS = [8, 10, 12, 15, 20, 24];
+// Each frame is a seek plus an encode, so long or high-fps ranges are refused
+export const MAX_ANIMATION_FRAMES = 300;
+
+export const countFrames = (range: FrameRange) => Math.max(1, Math.round((range.end - range.start) * range.fps));
+
+const abortError = () => new DOMException("Export was cancelled", 'AbortError');
+
+// --- Frames ---
+
+const createFrameCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+// The time of every frame in the range
+const frameTimes = (range: FrameRange) => {
+  const count = countFrames(range);
+  if (count > MAX_ANIMATION_FRAMES) {
+    throw new Error(`That is ${count} frames; shorten the range or lower the frame rate to stay under ${MAX_ANIMATION_FRAMES}.`);
+  }
+  return Array.from({ length: count }, (_, i) => range.start + i / range.fps);
+};
+
+// Seeks to each time and draws the frame at the output width before handing it over.
+// The canvas is reused, so onFrame must be done with it (or await its work) before returning.
+const sampleFrames = async (
+  blob: Blob,
+  width: number,
+  times: number[],
+  onFrame: (ctx: CanvasRenderingContext2D, index: number) => void | Promise<void>,
+  signal?: AbortSignal
+) => {
+  const { video, duration, release } = await loadVideoBlob(blob);
+  try {
+    const frameWidth = Math.min(width, video.videoWidth);
+    const frameHeight = Math.round(frameWidth * video.videoHeight / video.videoWidth);
+    const { ctx } = createFrameCanvas(frameWidth, frameHeight);
+    for (let i = 0; i < times.length; i++) {
+      if (signal?.aborted) throw abortError();
+      // Seeking exactly to the end can show a blank frame, so stop just short of it
+      await seekVideo(video, Math.min(times[i], duration - 0.05));
+      ctx.drawImage(video, 0, 0, frameWidth, frameHeight);
+      await onFrame(ctx, i);
+    }
+  } finally {
+    release();
+  }
+};
+
+// Frame durations that add up to the exact total, rather than drifting by a rounding error per frame
+const frameDelays = (count: number, fps: number, unitsPerSecond: number) =>
+  Array.from({ length: count }, (_, i) => Math.round((i + 1) * unitsPerSecond / fps) - Math.round(i * unitsPerSecond / fps));
+
+// A still frame as a PNG at the requested width
+export const exportPosterFrame = async (blob: Blob, time: number, width: number): Promise<Blob> => {
+  const posters: Promise<Blob>[] = [];
+  await sampleFrames(blob, width, [time], (ctx) => {
+    posters.push(new Promise((resolve, reject) => {
+      ctx.canvas.toBlob(png => png ? resolve(png) : reject(new Error("Could not encode the frame")), 'image/png');
+    }));
+  });
+  return posters[0];
+};
+
+// --- GIF ---
+
+const PALETTE_SIZE = 256;
+const PALETTE_SAMPLES = 60000;
+const PALETTE_FRAMES = 12; // Spread over the range; enough to catch colors that only show up part of the way through
+
+interface ColorBox {
+  pixels: number[]; // Packed 0xRRGGBB
+  range: number;
+  shift: number; // Channel with the widest range: 16 red, 8 green, 0 blue
+}
+
+const toBox = (pixels: number[]): ColorBox => {
+  let best = { range: -1, shift: 0 };
+  for (const shift of [16, 8, 0]) {
+    let min = 255;
+    let max = 0;
+    for (const p of pixels) {
+      const v = (p >> shift) & 0xFF;
+      if (v < min) min = v;
+      if (v > max) max = v;
+    }
+    if (max - min > best.range) best = { range: max - min, shift };
+  }
+  return { pixels, ...best };
+};
+
+// Adds an even spread of about `count` pixels from the frame, packed as 0xRRGGBB
+const samplePixels = (frame: ImageData, count: number, samples: number[]) => {
+  const px = frame.data;
+  const pixelCount = frame.width * frame.height;
+  const stride = Math.max(1, Math.floor(pixelCount / count));
+  for (let p = 0; p < pixelCount; p += stride) {
+    samples.push((px[p * 4] << 16) | (px[p * 4 + 1] << 8) | px[p * 4 + 2]);
+  }
+};
+
+// Median cut over pixels from across the animation, so every frame shares one palette and doesn't flicker
+const buildPalette = (samples: number[]): Uint8Array => {
+  let boxes = [toBox(samples)];
+  while (boxes.length < PALETTE_SIZE) {
+    const target = boxes.reduce((best, box) => box.pixels.length > 1 && box.range > (best?.range ?? 0) ? box : best, null as ColorBox | null);
+    if (!target) break;
+    const { shift } = target;
+    const sorted = [...target.pixels].sort((a, b) => ((a >> shift) & 0xFF) - ((b >> shift) & 0xFF));
+    const mid = sorted.length >> 1;
+    boxes = [...boxes.filter(b => b !== target), toBox(sorted.slice(0, mid)), toBox(sorted.slice(mid))];
+  }
+
+  const palette = new Uint8Array(PALETTE_SIZE * 3);
+  boxes.forEach((box, idx) => {
+    let r = 0, g = 0, b = 0;
+    for (const p of box.pixels) {
+      r += (p >> 16) & 0xFF;
+      g += (p >> 8) & 0xFF;
+      b += p & 0xFF;
+    }
+    const n = box.pixels.length || 1;
+    palette.set([Math.round(r / n), Math.round(g / n), Math.round(b / n)], idx * 3);
+  });
+  return palette;
+};
+
+// Nearest palette entry, cached per 15-bit color since neighbouring frames repeat most colors
+const createIndexer = (palette: Uint8Array) => {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return (r: number, g: number, b: number) => {
+    const key = ((r >> 3) << 10) | ((g >> 3) << 5) | (b >> 3);
+    let idx = cache[key];
+    if (idx < 0) {
+      let bestDistance = Infinity;
+      for (let i = 0; i < PALETTE_SIZE; i++) {
+        const dr = palette[i * 3] - r;
+        const dg = palette[i * 3 + 1] - g;
+        const db = palette[i * 3 + 2] - b;
+        const distance = dr * dr + dg * dg + db * db;
+        if (distance < bestDistance) {
+          bestDistance = distance;
+          idx = i;
+        }
+      }
+      cache[key] = idx;
+    }
+    return idx;
+  };
+};
+
+// Variable-width LZW as the GIF format defines it, split into sub-blocks of at most 255 bytes
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const out: number[] = [];
+  let codeSize = minCodeSize + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let buffer = 0;
+  let bits = 0;
+
+  const emit = (code: number) => {
+    buffer |= code << bits;
+    bits += codeSize;
+    while (bits >= 8) {
+      out.push(buffer & 0xFF);
+      buffer >>>= 8;
+      bits -= 8;
+    }
+  };
+
+  emit(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === 4096) {
+      // The table is full; start over
+      emit(clearCode);
+      table = new Map();
+      codeSize = minCodeSize + 1;
+      nextCode = endCode + 1;
+    } else {
+      // Widen codes just before the first entry that needs the extra bit, as the decoder expects
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  // The decoder adds its last entry on reading that final code and may widen before the end code, so match it
+  if (nextCode === 1 << codeSize && codeSize < 12) codeSize++;
+  emit(endCode);
+  if (bits > 0) out.push(buffer & 0xFF);
+
+  const blocks: number[] = [];
+  for (let i = 0; i < out.length; i += 255) {
+    const block = out.slice(i, i + 255);
+    blocks.push(block.length, ...block);
+  }
+  blocks.push(0);
+  return Uint8Array.from(blocks);
+};
+
+const u16 = (n: number) => [n & 0xFF, (n >> 8) & 0xFF];
+
+const gifHeader = (width: number, height: number, palette: Uint8Array): Uint8Array[] => [
+  new TextEncoder().encode('GIF89a'),
+  Uint8Array.from([
+    ...u16(width), ...u16(height),
+    0xF7, // Global color table of 256 entries
+    0, 0,
+  ]),
+  palette,
+  // Loop forever
+  Uint8Array.from([0x21, 0xFF, 0x0B, ...new TextEncoder().encode('NETSCAPE2.0'), 0x03, 0x01, 0, 0, 0]),
+];
+
+const gifFrame = (frame: ImageData, indexOf: (r: number, g: number, b: number) => number, delay: number): Uint8Array[] => {
+  const { width, height, data: px } = frame;
+  const indices = new Uint8Array(width * height);
+  for (let p = 0; p < indices.length; p++) indices[p] = indexOf(px[p * 4], px[p * 4 + 1], px[p * 4 + 2]);
+  return [
+    Uint8Array.from([0x21, 0xF9, 0x04, 0x04, ...u16(delay), 0, 0]), // Graphic control: keep the previous frame, delay
+    Uint8Array.from([0x2C, 0, 0, 0, 0, ...u16(width), ...u16(height), 0, 8]), // Image descriptor, LZW minimum code size
+    lzwEncode(indices, 8),
+  ];
+};
+
+// Two passes over the video: a few frames for the shared palette, then every frame is quantized
+// and compressed as soon as it is drawn, so only the encoded bytes are kept in memory
+export const exportAnimatedGif = async (blob: Blob, range: FrameRange, options: ExportProgressOptions = {}): Promise<Blob> => {
+  const { signal, onProgress } = options;
+  const times = frameTimes(range);
+
+  const paletteStep = Math.ceil(times.length / PALETTE_FRAMES);
+  const paletteTimes = times.filter((_, idx) => idx % paletteStep === 0);
+  const samples: number[] = [];
+  await sampleFrames(blob, range.width, paletteTimes, (ctx, idx) => {
+    samplePixels(ctx.getImageData(0, 0, ctx.canvas.width, ctx.canvas.height), PALETTE_SAMPLES / paletteTimes.length, samples);
+    onProgress?.(0.2 * (idx + 1) / paletteTimes.length);
+  }, signal);
+  const palette = buildPalette(samples);
+  const indexOf = createIndexer(palette);
+
+  const delays = frameDelays(times.length, range.fps, 100); // GIF delays are in hundredths of a second
+  const parts: BlobPart[] = [];
+  await sampleFrames(blob, range.width, times, (ctx, idx) => {
+    const { width, height } = ctx.canvas;
+    if (idx === 0) parts.push(...gifHeader(width, height, palette));
+    parts.push(...gifFrame(ctx.getImageData(0, 0, width, height), indexOf, delays[idx]));
+    onProgress?.(0.2 + 0.8 * (idx + 1) / times.length);
+  }, signal);
+  parts.push(Uint8Array.from([0x3B]));
+  return new Blob(parts, { type: 'image/gif' });
+};
+
+// --- WebP ---
+
+const WEBP_QUALITY = 0.85;
+
+const fourcc = (text: string) => new TextEncoder().encode(text);
+
+const riffChunk = (type: string, payload: Uint8Array[]): Uint8Array => {
+  const size = payload.reduce((sum, part) => sum + part.length, 0);
+  const chunk = new Uint8Array(8 + size + (size & 1)); // Chunks are padded to an even length
+  chunk.set(fourcc(type), 0);
+  new DataView(chunk.buffer).setUint32(4, size, true);
+  let offset = 8;
+  for (const part of payload) {
+    chunk.set(part, offset);
+    offset += part.length;
+  }
+  return chunk;
+};
+
+const u24 = (n: number) => [n & 0xFF, (n >> 8) & 0xFF, (n >> 16) & 0xFF];
+
+// The image chunks (alpha and VP8/VP8L bitstream) of a still WebP, ready to go into an animation frame
+const stillWebpChunks = (bytes: Uint8Array): Uint8Array[] => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: Uint8Array[] = [];
+  let offset = 12; // After "RIFF", the file size and "WEBP"
+  while (offset + 8 <= bytes.length) {
+    const type = String.fromCharCode(...bytes.subarray(offset, offset + 4));
+    const size = view.getUint32(offset + 4, true);
+    const end = offset + 8 + size + (size & 1);
+    if (type === 'ALPH' || type === 'VP8 ' || type === 'VP8L') chunks.push(bytes.subarray(offset, Math.min(end, bytes.length)));
+    offset = end;
+  }
+  return chunks;
+};
+
+const encodeWebpFrame = async (canvas: HTMLCanvasElement): Promise<Uint8Array> => {
+  const still = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/webp', WEBP_QUALITY));
+  // Browsers without a WebP encoder quietly fall back to PNG
+  if (!still || still.type !== 'image/webp') throw new Error("This browser can't encode WebP. Try GIF instead.");
+  return new Uint8Array(await still.arrayBuffer());
+};
+
+export const exportAnimatedWebp = async (blob: Blob, range: FrameRange, options: ExportProgressOptions = {}): Promise<Blob> => {
+  const { signal, onProgress } = options;
+  const times = frameTimes(range);
+  const stills: Uint8Array[] = [];
+  let size = { width: 0, height: 0 };
+  // Each frame is encoded before the canvas is redrawn, so only compressed frames pile up
+  await sampleFrames(blob, range.width, times, async (ctx, idx) => {
+    size = { width: ctx.canvas.width, height: ctx.canvas.height };
+    stills.push(await encodeWebpFrame(ctx.canvas));
+    onProgress?.(0.9 * (idx + 1) / times.length);
+  }, signal);
+
+  const delays = frameDelays(stills.length, range.fps, 1000); // Milliseconds
+  const frames = stills.map((still, idx) => {
+    const imageChunks = stillWebpChunks(still);
+    return riffChunk('ANMF', [
+      Uint8Array.from([
+        ...u24(0), ...u24(0), // Offset (in units of two pixels)
+        ...u24(size.width - 1), ...u24(size.height - 1),
+        ...u24(delays[idx]),
+        0x02, // Don't blend with the previous frame
+      ]),
+      ...imageChunks,
+    ]);
+  });
+  const hasAlpha = stills.some(still => stillWebpChunks(still).some(c => String.fromCharCode(...c.subarray(0, 4)) === 'ALPH'));
+
+  const header = riffChunk('VP8X', [Uint8Array.from([
+    0x02 | (hasAlpha ? 0x10 : 0), // Animation, and alpha if any frame has it
+    0, 0, 0,
+    ...u24(size.width - 1), ...u24(size.height - 1),
+  ])]);
+  const animation = riffChunk('ANIM', [Uint8Array.from([0, 0, 0, 0, 0, 0])]); // Black background, loop forever
+  const body = [fourcc('WEBP'), header, animation, ...frames];
+  const file = riffChunk('RIFF', body);
+  onProgress?.(1);
+  return new Blob([file], { type: 'image/webp' });
+};
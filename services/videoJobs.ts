@@ -0,0 +1,198 @@
+import { ImageAsset, VideoGuidance, VideoSettings } from "../types";
+import { getProvider } from "./providers";
+import { discardVideoOperation, fetchVideo, getVideoOperation, startVideoGeneration } from "./geminiService";
+
+// Runs video generation as a tracked job: polls the long-running operation with progress
+// events, honours AbortSignal and a max wait, and keeps the operation name in localStorage
+// so polling can pick up again after a reload.
+
+const STORAGE_KEY = 'roboai.pendingVideoJob';
+const DEFAULT_POLL_INTERVAL_MS = 5000;
+const DEFAULT_MAX_WAIT_MS = 10 * 60 * 1000;
+// Fallback for when the operation reports no progress: an estimate against a typical run that never claims more than 95%
+const EXPECTED_DURATION_MS = 90 * 1000;
+const MAX_CONSECUTIVE_POLL_FAILURES = 3;
+
+export type VideoJobErrorCode = 'cancelled' | 'timeout' | 'failed';
+
+export class VideoJobError extends Error {
+  code: VideoJobErrorCode;
+
+  constructor(message: string, code: VideoJobErrorCode) {
+    super(message);
+    this.name = 'VideoJobError';
+    this.code = code;
+  }
+}
+
+export interface PendingVideoJob {
+  operationName: string;
+  provider: string;
+  projectId: string | null; // The project the finished video belongs to
+  startedAt: number;
+  prompt: string;
+  settings: VideoSettings;
+}
+
+export interface VideoJobProgress {
+  elapsedMs: number;
+  progress: number; // 0-1
+  pollCount: number;
+}
+
+export interface VideoJobOptions {
+  signal?: AbortSignal;
+  maxWaitMs?: number;
+  pollIntervalMs?: number;
+  onProgress?: (progress: VideoJobProgress) => void;
+  persist?: boolean; // Default true. Batch jobs opt out so they don't replace the job a reload would resume.
+  projectId?: string; // Stored with a persisted job, so only that project resumes it
+}
+
+// --- Persistence ---
+
+export const getPendingVideoJob = (): PendingVideoJob | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const job = JSON.parse(raw) as PendingVideoJob;
+    // A job started against another backend cannot be polled by the current one
+    return job.provider === getProvider().name ? job : null;
+  } catch {
+    return null;
+  }
+};
+
+// The stored job, if it was started in this project
+export const getPendingVideoJobFor = (projectId: string): PendingVideoJob | null => {
+  const job = getPendingVideoJob();
+  return job?.projectId === projectId ? job : null;
+};
+
+const savePendingVideoJob = (job: PendingVideoJob) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(job));
+};
+
+export const clearPendingVideoJob = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+// Only clear the stored job if it is this one; an unpersisted job must not wipe another's entry
+const forgetVideoJob = (job: PendingVideoJob) => {
+  if (getPendingVideoJob()?.operationName === job.operationName) clearPendingVideoJob();
+};
+
+// A cancelled or timed-out job can only be picked up again through its stored entry.
+// Without one, nothing will poll it, so the backend can free it.
+const dropVideoJob = (job: PendingVideoJob) => {
+  if (getPendingVideoJob()?.operationName !== job.operationName) discardVideoOperation(job.operationName);
+};
+
+// --- Polling ---
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new VideoJobError("Video generation was cancelled", 'cancelled');
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => {
+  return new Promise<void>((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new VideoJobError("Video generation was cancelled", 'cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+const pollUntilDone = async (job: PendingVideoJob, options: VideoJobOptions): Promise<Blob[]> => {
+  const {
+    signal,
+    maxWaitMs = DEFAULT_MAX_WAIT_MS,
+    pollIntervalMs = DEFAULT_POLL_INTERVAL_MS,
+    onProgress,
+  } = options;
+
+  let pollCount = 0;
+  let consecutiveFailures = 0;
+
+  while (true) {
+    throwIfAborted(signal);
+
+    const elapsedMs = Date.now() - job.startedAt;
+    if (elapsedMs > maxWaitMs) {
+      forgetVideoJob(job);
+      throw new VideoJobError(`Video generation did not finish within ${Math.round(maxWaitMs / 60000)} minutes`, 'timeout');
+    }
+
+    let status;
+    try {
+      status = await getVideoOperation(job.operationName);
+      consecutiveFailures = 0;
+    } catch (error) {
+      // A dropped request should not lose a job that is still running server-side
+      if (++consecutiveFailures >= MAX_CONSECUTIVE_POLL_FAILURES) throw error;
+      console.warn("Video poll failed, retrying:", error);
+    }
+    pollCount++;
+    throwIfAborted(signal);
+
+    if (status?.done) {
+      if (status.error || !status.videoUris?.length) {
+        forgetVideoJob(job);
+        throw new VideoJobError(status.error || "No video URI returned", 'failed');
+      }
+      // Only forget the job once the bytes are safely here, so a failed download can be resumed
+      const videos = await Promise.all(status.videoUris.map(uri => fetchVideo(uri)));
+      forgetVideoJob(job);
+      onProgress?.({ elapsedMs: Date.now() - job.startedAt, progress: 1, pollCount });
+      return videos;
+    }
+
+    const estimated = Math.min(0.95, elapsedMs / EXPECTED_DURATION_MS);
+    onProgress?.({ elapsedMs, progress: status?.progress ?? estimated, pollCount });
+
+    await sleep(pollIntervalMs, signal);
+  }
+};
+
+const pollVideoJob = async (job: PendingVideoJob, options: VideoJobOptions): Promise<Blob[]> => {
+  try {
+    return await pollUntilDone(job, options);
+  } catch (error) {
+    if (error instanceof VideoJobError && error.code !== 'failed') dropVideoJob(job);
+    throw error;
+  }
+};
+
+// Starts a new video generation and polls it to completion. Resolves to one video file per take.
+export const runVideoJob = async (
+  image: ImageAsset,
+  prompt: string,
+  settings: VideoSettings,
+  guidance: VideoGuidance = {},
+  options: VideoJobOptions = {}
+): Promise<Blob[]> => {
+  throwIfAborted(options.signal);
+  const operationName = await startVideoGeneration(image, prompt, settings, guidance);
+
+  const job: PendingVideoJob = {
+    operationName,
+    provider: getProvider().name,
+    projectId: options.projectId ?? null,
+    startedAt: Date.now(),
+    prompt,
+    settings,
+  };
+  if (options.persist !== false) savePendingVideoJob(job);
+
+  return pollVideoJob(job, options);
+};
+
+// Continues polling a job persisted by an earlier runVideoJob (e.g. before a reload)
+export const resumeVideoJob = (job: PendingVideoJob, options: VideoJobOptions = {}): Promise<Blob[]> => {
+  return pollVideoJob(job, options);
+};
@@ -0,0 +1,70 @@
+import { PersonGeneration, VideoModel, VideoReferenceImage, VideoResolution, VideoSettings } from "../types";
+
+// Labels for the animator's video options and the limits the video model puts on them.
+
+interface Option<T> {
+  value: T;
+  label: string;
+}
+
+export const VIDEO_MODELS: (Option<VideoModel> & { description: string })[] = [
+  { value: 'fast', label: 'Fast', description: 'Quicker and cheaper; good for trying ideas.' },
+  { value: 'quality', label: 'Quality', description: 'Slower, with more detail and steadier motion.' },
+];
+
+export const VIDEO_RESOLUTIONS: Option<VideoResolution>[] = [
+  { value: '720p', label: '720p' },
+  { value: '1080p', label: '1080p' },
+];
+
+export const VIDEO_DURATIONS: Option<number>[] = [
+  { value: 4, label: '4 seconds' },
+  { value: 6, label: '6 seconds' },
+  { value: 8, label: '8 seconds' },
+];
+
+// 1080p is only generated at the longest duration
+export const FULL_HD_DURATION_SECONDS = 8;
+
+export const PERSON_GENERATION_OPTIONS: Option<PersonGeneration>[] = [
+  { value: 'allow_adult', label: 'Allow adults' },
+  { value: 'dont_allow', label: 'No people' },
+];
+
+export const MAX_TAKES = 4;
+
+export const DEFAULT_VIDEO_SETTINGS: VideoSettings = {
+  model: 'fast',
+  aspectRatio: '16:9',
+  resolution: '1080p',
+  durationSeconds: 8,
+  negativePrompt: '',
+  personGeneration: 'allow_adult',
+  numberOfVideos: 1,
+};
+
+// Applies a change and keeps the combination valid
+export const updateVideoSettings = (settings: VideoSettings, changes: Partial<VideoSettings>): VideoSettings => {
+  const next = { ...settings, ...changes };
+  if (next.resolution === '1080p' && next.durationSeconds !== FULL_HD_DURATION_SECONDS) {
+    // Whichever was just changed wins
+    if (changes.durationSeconds !== undefined) {
+      next.resolution = '720p';
+    } else {
+      next.durationSeconds = FULL_HD_DURATION_SECONDS;
+    }
+  }
+  next.numberOfVideos = Math.min(MAX_TAKES, Math.max(1, Math.round(next.numberOfVideos)));
+  return next;
+};
+
+// Veo takes up to three asset references, or a single style reference on its own
+export const MAX_REFERENCE_IMAGES = 3;
+
+// Why a set of reference images can't be sent as-is, or null if it can
+export const validateReferenceImages = (references: VideoReferenceImage[]): string | null => {
+  if (references.length === 0) return "Add at least one reference image.";
+  if (references.length > MAX_REFERENCE_IMAGES) return `Use at most ${MAX_REFERENCE_IMAGES} reference images.`;
+  if (references.some(r => r.type === 'style') && references.length > 1) return "A style reference can't be combined with other references.";
+  return null;
+};
@@ -10,8 +10,200 @@ export interface ImageAsset {
   mimeType: string;
 }
 
-export interface GeneratedVideo {
-  uri: string;
+// What an image model call produced. Refusals and safety blocks are outcomes, not errors,
+// so the UI can show the model's explanation and let the user rephrase.
+export type ImageResult =
+  | { kind: 'image'; image: ImageAsset }
+  | { kind: 'text'; text: string } // The model answered in words, usually a refusal or a question back
+  | { kind: 'blocked'; stage: 'prompt' | 'output'; category?: string; message?: string };
+
+export type ImageRefusal = Exclude<ImageResult, { kind: 'image' }>;
+
+export type BackgroundStyle = 'photoreal' | 'cinematic' | 'anime' | 'watercolor';
+export type TimeOfDay = 'any' | 'sunrise' | 'midday' | 'golden-hour' | 'blue-hour' | 'night';
+export type Weather = 'any' | 'clear' | 'cloudy' | 'rain' | 'snow' | 'fog';
+export type Season = 'any' | 'spring' | 'summer' | 'autumn' | 'winter';
+
+// Look of a generated location background. 'any' leaves the choice to the model.
+export interface BackgroundOptions {
+  style: BackgroundStyle;
+  timeOfDay: TimeOfDay;
+  weather: Weather;
+  season: Season;
+}
+
+export type VideoAspectRatio = "16:9" | "9:16";
+export type VideoModel = 'fast' | 'quality';
+export type VideoResolution = '720p' | '1080p';
+// Image-to-video only accepts adults or no people at all
+export type PersonGeneration = 'allow_adult' | 'dont_allow';
+
+// Everything the video model is asked for besides the prompt and the source image
+export interface VideoSettings {
+  model: VideoModel;
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+  durationSeconds: number;
+  negativePrompt: string; // What the video should not contain; empty for none
+  seed?: number; // Unset for a random seed
+  personGeneration: PersonGeneration;
+  numberOfVideos: number; // Takes returned by one generation
+}
+
+export type VideoReferenceType = 'asset' | 'style';
+
+export interface VideoReferenceImage {
+  image: ImageAsset;
+  type: VideoReferenceType; // 'asset': keep this subject or scene; 'style': borrow the look
+}
+
+// Steers a video beyond its start frame. Reference images replace the start frame entirely,
+// so the two are used one at a time.
+export interface VideoGuidance {
+  lastFrame?: ImageAsset; // The video ends on this frame
+  referenceImages?: VideoReferenceImage[];
+}
+
+// A point on a local camera path: the camera looks at (x, y) at the given zoom
+export interface CameraKeyframe {
+  time: number; // 0-1, share of the duration
+  x: number; // 0-1 (percentage of width), center of view
+  y: number; // 0-1 (percentage of height), center of view
+  zoom: number; // 1 fills the frame with the whole image
+}
+
+// A pan/zoom animation rendered in the browser from the composite, without the video model
+export interface LocalMotionSettings {
+  keyframes: CameraKeyframe[]; // Sorted by time, at least two
+  aspectRatio: VideoAspectRatio;
+  resolution: VideoResolution;
+  durationSeconds: number;
+  parallax: number; // 0 = flat; how much further the subject moves than the background
+}
+
+// A sound laid under a video: a voiceover recorded in the app or an uploaded music file
+export interface AudioClip {
+  blob: Blob;
+  name: string;
+  volume: number; // 0-1
+  offset: number; // Seconds into the video where it starts
+  fadeIn: number; // Seconds
+  fadeOut: number; // Seconds, ending where the sound or the video ends, whichever is first
+}
+
+// Text shown over the video from start to end
+export interface Caption {
+  id: string;
+  text: string;
+  start: number; // Seconds
+  end: number; // Seconds
+}
+
+export type CaptionPosition = 'top' | 'bottom';
+
+// Everything mixed into a clip when it is exported with sound
+export interface Soundtrack {
+  voiceover?: AudioClip;
+  music?: AudioClip; // Loops until the video ends
+  originalVolume: number; // 0-1, for the video's own audio
+  captions: Caption[];
+  captionPosition: CaptionPosition;
+}
+
+// One uploaded subject in the composer. Layers are stored bottom-to-top.
+export interface SubjectLayer {
+  id: string;
+  name: string;
+  image: ImageAsset; // The cutout once the background has been removed
+  originalImage?: ImageAsset; // The upload before background removal
+  mask?: ImageAsset; // PNG, alpha = keep; lets the cutout be refined again later
+  x: number; // 0-1 (percentage of width), center
+  y: number; // 0-1 (percentage of height), center
+  scale: number; // multiplier
+  rotation: number; // degrees, clockwise
+  flipX: boolean;
+  opacity: number; // 0-1
+}
+
+// How a fresh composite is made from the background and the arranged layers
+export type CompositeStrategy =
+  | 'ai-composite' // Background and subjects go to the model as separate images
+  | 'merge-refine' // Merged locally, then the model blends the result
+  | 'merge-only'; // Merged locally, no AI
+
+// A node in the edit history tree. Edits point at the version they were made from.
+export interface CompositeRecord {
+  id: string;
+  parentId: string | null; // null for a fresh composite from the composer
+  image: ImageAsset;
+  prompt: string;
+  kind: 'composite' | 'edit' | 'region-edit' | 'video-frame'; // 'video-frame': grabbed from a generated video
+  strategy: CompositeStrategy | null; // How a 'composite' was made; null for edits and video frames
+  createdAt: number;
+}
+
+export interface VideoRecord {
+  id: string;
+  blob: Blob;
+  prompt: string;
+  aspectRatio: VideoAspectRatio;
+  settings: VideoSettings | null; // What the video model was asked for; null for local renders, which have motion instead
+  motion?: LocalMotionSettings; // Set on videos rendered in the browser instead of by the video model
+  take?: number; // 1-based, when one generation returned several takes
+  createdAt: number;
+}
+
+// One shot in the timeline: a saved video, played from trimStart to trimEnd
+export interface TimelineClip {
+  id: string;
+  videoId: string; // A VideoRecord in the same project
+  trimStart: number; // Seconds
+  trimEnd?: number; // Seconds; unset plays to the end
+}
+
+// Which prompt box a preset is for
+export type PromptCategory = 'composite' | 'edit' | 'animate';
+
+// Reusable prompt text. Templates may use {location} and {subject}, filled in when the preset is applied.
+export interface PromptPreset {
+  id: string;
+  name: string;
+  category: PromptCategory;
+  template: string;
+  builtIn?: boolean; // Ships with the app; can't be deleted or exported
+}
+
+// Which model an enhanced prompt is written for: the image editor, or Veo with its camera and motion language
+export type PromptStyle = 'image' | 'video';
+
+// What ImageEditor needs to pick up where the user left off
+export interface EditorSession {
+  layers: SubjectLayer[];
+  composites: CompositeRecord[];
+  currentCompositeId: string | null;
+}
+
+export interface Project extends EditorSession {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  step: AppStep;
+  query: string;
+  locationName: string;
+  locationImage: ImageAsset | null;
+  finalComposite: ImageAsset | null; // The image handed to the animator
+  videos: VideoRecord[];
+  timeline: TimelineClip[]; // In playback order
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+  thumbnail: ImageAsset | null;
+  compositeCount: number;
+  videoCount: number;
 }
 
 export enum AppStep {
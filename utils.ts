@@ -1,28 +1,4 @@
-export const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const result = reader.result as string;
-      // Remove data:image/png;base64, prefix
-      const base64 = result.split(',')[1];
-      resolve(base64);
-    };
-    reader.onerror = (error) => reject(error);
-  });
-};
-
-export const blobToBase64 = (blob: Blob): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(blob);
-    reader.onloadend = () => {
-      const base64data = reader.result as string;
-      resolve(base64data.split(',')[1]);
-    };
-    reader.onerror = reject;
-  });
-};
+import { ImageAsset, SubjectLayer } from './types';
 
 export const cleanBase64 = (dataUrl: string): string => {
     if (dataUrl.includes(',')) {
@@ -32,68 +8,439 @@ export const cleanBase64 = (dataUrl: string): string => {
 }
 
 export const getMimeTypeFromUrl = (url: string): string => {
-    if(url.startsWith('data:image/png')) return 'image/png';
-    if(url.startsWith('data:image/jpeg')) return 'image/jpeg';
-    if(url.startsWith('data:image/webp')) return 'image/webp';
-    return 'image/png'; // default
+    const match = url.match(/^data:([^;,]+)/);
+    return match ? match[1] : 'image/png'; // default
 }
 
-export const downloadBase64 = (base64: string, filename: string) => {
+export const dataUrlToImageAsset = (dataUrl: string): ImageAsset => ({
+  data: cleanBase64(dataUrl),
+  mimeType: getMimeTypeFromUrl(dataUrl),
+});
+
+export const toDataUrl = (asset: ImageAsset): string => `data:${asset.mimeType};base64,${asset.data}`;
+
+export const imageAssetToBlob = (asset: ImageAsset): Blob => {
+  const bytes = Uint8Array.from(atob(asset.data), c => c.charCodeAt(0));
+  return new Blob([bytes], { type: asset.mimeType });
+};
+
+export const getExtensionForMimeType = (mimeType: string): string => {
+  switch (mimeType) {
+    case 'image/jpeg': return 'jpg';
+    case 'image/webp': return 'webp';
+    case 'image/gif': return 'gif';
+    case 'image/heic': return 'heic';
+    case 'video/webm': return 'webm';
+    case 'video/mp4': return 'mp4';
+    default: return mimeType.split('/')[1] || 'png';
+  }
+};
+
+// Largest edge we send to the image models; bigger uploads are downscaled before anything else sees them
+export const MAX_IMAGE_DIMENSION = 2048;
+const JPEG_QUALITY = 0.92;
+
+const HEIC_TYPES = ['image/heic', 'image/heif'];
+
+const isHeic = (file: File) => HEIC_TYPES.includes(file.type) || /\.hei[cf]$/i.test(file.name);
+
+// Decodes an upload, applies its EXIF orientation, downscales it to MAX_IMAGE_DIMENSION and
+// re-encodes it as PNG (keeps transparency), WebP, or JPEG (everything else, including HEIC).
+export const normalizeImageFile = async (file: File): Promise<ImageAsset> => {
+  let bitmap: ImageBitmap;
+  try {
+    bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  } catch (error) {
+    throw new Error(isHeic(file)
+      ? "This browser can't decode HEIC photos. Convert it to JPEG, or upload from Safari."
+      : `Unsupported image file: ${file.name}`);
+  }
+
+  const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(bitmap.width * scale);
+  canvas.height = Math.round(bitmap.height * scale);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  const mimeType = file.type === 'image/png' || file.type === 'image/webp' ? file.type : 'image/jpeg';
+  return dataUrlToImageAsset(canvas.toDataURL(mimeType, JPEG_QUALITY));
+};
+
+// Downloads an image from a pasted link as a File so it can go through normalizeImageFile like an upload.
+// Only works for hosts that allow cross-origin reads.
+export const fetchImageFile = async (url: string): Promise<File> => {
+  let response: Response;
+  try {
+    response = await fetch(url);
+  } catch (error) {
+    throw new Error("That site doesn't allow its images to be loaded here. Save the image and upload it instead.");
+  }
+  if (!response.ok) throw new Error(`Could not download the image (HTTP ${response.status}).`);
+
+  const blob = await response.blob();
+  if (!blob.type.startsWith('image/')) throw new Error("That link doesn't point to an image.");
+  const name = decodeURIComponent(new URL(url).pathname.split('/').pop() || '') || 'image';
+  return new File([blob], name, { type: blob.type });
+};
+
+export const downloadImageAsset = (asset: ImageAsset, filename: string) => {
   const link = document.createElement('a');
-  link.href = `data:image/png;base64,${base64}`;
+  link.href = toDataUrl(asset);
+  link.download = `${filename}.${getExtensionForMimeType(asset.mimeType)}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
   link.download = filename;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
 };
 
-export const mergeImages = async (
-  bgBase64: string,
-  fgBase64: string,
-  fgX: number, // 0-1 (percentage of width)
-  fgY: number, // 0-1 (percentage of height)
-  fgScale: number // multiplier
-): Promise<string> => {
+// "Saint-Tropez Harbour" -> "saint-tropez-harbour", for use in download filenames
+export const slugify = (text: string): string => {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+};
+
+export const loadImageAsset = (asset: ImageAsset): Promise<HTMLImageElement> => {
   return new Promise((resolve, reject) => {
-    const bgImg = new Image();
-    const fgImg = new Image();
-    
-    bgImg.onload = () => {
-      fgImg.onload = () => {
-        const canvas = document.createElement('canvas');
-        canvas.width = bgImg.width;
-        canvas.height = bgImg.height;
-        const ctx = canvas.getContext('2d');
-        
-        if (!ctx) {
-          reject(new Error("Could not get canvas context"));
-          return;
-        }
-
-        // Draw Background
-        ctx.drawImage(bgImg, 0, 0);
-
-        // Calculate FG dimensions preserving aspect ratio
-        const fgAspect = fgImg.width / fgImg.height;
-        // Base size: let's say 1.0 scale means 1/3 of background width
-        const baseWidth = bgImg.width * 0.33; 
-        const drawWidth = baseWidth * fgScale;
-        const drawHeight = drawWidth / fgAspect;
-
-        // Calculate Position (Center based)
-        const posX = (bgImg.width * fgX) - (drawWidth / 2);
-        const posY = (bgImg.height * fgY) - (drawHeight / 2);
-
-        // Draw Foreground
-        ctx.drawImage(fgImg, posX, posY, drawWidth, drawHeight);
-
-        // Export
-        const result = canvas.toDataURL('image/png');
-        resolve(result.split(',')[1]);
-      };
-      fgImg.src = `data:image/png;base64,${fgBase64}`;
-    };
-    bgImg.src = `data:image/png;base64,${bgBase64}`;
-    bgImg.onerror = reject;
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = toDataUrl(asset);
   });
-};
\ No newline at end of file
+};
+
+export interface LoadedVideo {
+  video: HTMLVideoElement;
+  duration: number; // Seconds
+  release: () => void; // Frees the object URL
+}
+
+const waitForEvent = (target: HTMLMediaElement, event: string) => new Promise<void>((resolve, reject) => {
+  const onError = () => reject(target.error ?? new Error("Could not read the video"));
+  target.addEventListener(event, () => {
+    target.removeEventListener('error', onError);
+    resolve();
+  }, { once: true });
+  target.addEventListener('error', onError, { once: true });
+});
+
+// Videos recorded in the browser carry no duration until the player has seeked to the end
+const resolveDuration = async (video: HTMLVideoElement): Promise<number> => {
+  if (Number.isFinite(video.duration)) return video.duration;
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = Number.MAX_SAFE_INTEGER;
+  await seeked;
+  const duration = video.duration;
+  video.currentTime = 0;
+  await waitForEvent(video, 'seeked');
+  return duration;
+};
+
+export const loadVideoBlob = async (blob: Blob): Promise<LoadedVideo> => {
+  const url = URL.createObjectURL(blob);
+  const video = document.createElement('video');
+  video.preload = 'auto';
+  video.playsInline = true;
+  try {
+    const loaded = waitForEvent(video, 'loadeddata');
+    video.src = url;
+    await loaded;
+    return { video, duration: await resolveDuration(video), release: () => URL.revokeObjectURL(url) };
+  } catch (error) {
+    URL.revokeObjectURL(url);
+    throw error;
+  }
+};
+
+export const seekVideo = async (video: HTMLVideoElement, time: number) => {
+  const seeked = waitForEvent(video, 'seeked');
+  video.currentTime = time;
+  await seeked;
+};
+
+// A still from a video as a JPEG. Without a time, the last frame.
+export const captureVideoFrame = async (blob: Blob, time?: number): Promise<ImageAsset> => {
+  const { video, duration, release } = await loadVideoBlob(blob);
+  try {
+    // Seeking exactly to the end can show a blank frame, so stop just short of it
+    await seekVideo(video, Math.max(0, Math.min(time ?? duration, duration - 0.05)));
+    const { canvas, ctx } = createCanvas(video.videoWidth, video.videoHeight);
+    ctx.drawImage(video, 0, 0);
+    return dataUrlToImageAsset(canvas.toDataURL('image/jpeg', JPEG_QUALITY));
+  } finally {
+    release();
+  }
+};
+
+// Share of the background width a layer at scale 1 occupies. The composer preview uses the same base.
+export const LAYER_BASE_WIDTH = 0.33;
+
+// Draws the layers onto a canvas of the given size, exactly as the composer preview shows them
+const drawLayers = (ctx: CanvasRenderingContext2D, width: number, height: number, layers: SubjectLayer[], layerImgs: HTMLImageElement[]) => {
+  layers.forEach((layer, idx) => {
+    const fgImg = layerImgs[idx];
+
+    // Calculate FG dimensions preserving aspect ratio
+    const fgAspect = fgImg.width / fgImg.height;
+    const drawWidth = width * LAYER_BASE_WIDTH * layer.scale;
+    const drawHeight = drawWidth / fgAspect;
+
+    // Transform around the layer's center, in the same order as the CSS preview
+    ctx.save();
+    ctx.globalAlpha = layer.opacity;
+    ctx.translate(width * layer.x, height * layer.y);
+    ctx.rotate((layer.rotation * Math.PI) / 180);
+    ctx.scale(layer.flipX ? -1 : 1, 1);
+    ctx.drawImage(fgImg, -drawWidth / 2, -drawHeight / 2, drawWidth, drawHeight);
+    ctx.restore();
+  });
+};
+
+// Renders the layer stack (first layer at the bottom) over the background, matching the composer preview
+export const mergeImages = async (
+  background: ImageAsset,
+  layers: SubjectLayer[]
+): Promise<ImageAsset> => {
+  const [bgImg, ...layerImgs] = await Promise.all([
+    loadImageAsset(background),
+    ...layers.map(layer => loadImageAsset(layer.image)),
+  ]);
+
+  const { canvas, ctx } = createCanvas(bgImg.width, bgImg.height);
+
+  // Draw Background
+  ctx.drawImage(bgImg, 0, 0);
+  drawLayers(ctx, bgImg.width, bgImg.height, layers, layerImgs);
+
+  // Export as PNG so transparent cutout edges survive
+  return dataUrlToImageAsset(canvas.toDataURL('image/png'));
+};
+
+// The layers alone on a transparent canvas the size of the background: where each subject
+// goes, without baking them into the scene
+export const arrangeLayers = async (
+  background: ImageAsset,
+  layers: SubjectLayer[]
+): Promise<ImageAsset> => {
+  const [bgImg, ...layerImgs] = await Promise.all([
+    loadImageAsset(background),
+    ...layers.map(layer => loadImageAsset(layer.image)),
+  ]);
+
+  const { canvas, ctx } = createCanvas(bgImg.width, bgImg.height);
+  drawLayers(ctx, bgImg.width, bgImg.height, layers, layerImgs);
+  return dataUrlToImageAsset(canvas.toDataURL('image/png'));
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  return { canvas, ctx };
+};
+
+// The model answers with a black/white picture; turn brightness into alpha so the mask can be
+// composited directly and painted on with ordinary canvas operations.
+export const luminanceToAlpha = (ctx: CanvasRenderingContext2D, width: number, height: number) => {
+  const data = ctx.getImageData(0, 0, width, height);
+  const px = data.data;
+  for (let i = 0; i < px.length; i += 4) {
+    const luminance = 0.299 * px[i] + 0.587 * px[i + 1] + 0.114 * px[i + 2];
+    px[i] = px[i + 1] = px[i + 2] = 255;
+    px[i + 3] = luminance;
+  }
+  ctx.putImageData(data, 0, 0);
+};
+
+// Keeps only the white part of a black/white mask, as a PNG the size of the image
+export const cutOutWithMask = async (image: ImageAsset, mask: ImageAsset): Promise<ImageAsset> => {
+  const [img, maskImg] = await Promise.all([image, mask].map(loadImageAsset));
+  const { canvas, ctx } = createCanvas(img.width, img.height);
+  // Model output is not always the same size as the input, so stretch it back onto the original
+  ctx.drawImage(maskImg, 0, 0, img.width, img.height);
+  luminanceToAlpha(ctx, img.width, img.height);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.drawImage(img, 0, 0);
+  return dataUrlToImageAsset(canvas.toDataURL('image/png'));
+};
+
+// Region masks are PNGs whose alpha marks the area to change. Models understand black/white
+// pictures better, so this flattens one to white-on-black.
+export const alphaMaskToBlackAndWhite = async (mask: ImageAsset): Promise<ImageAsset> => {
+  const maskImg = await loadImageAsset(mask);
+  const { canvas, ctx } = createCanvas(maskImg.width, maskImg.height);
+  ctx.drawImage(maskImg, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  return dataUrlToImageAsset(canvas.toDataURL('image/png'));
+};
+
+// Pastes the edited image over the original only where the mask is painted. The edge is feathered
+// inwards, so every pixel outside the mask is exactly the original one.
+export const blendWithMask = async (
+  original: ImageAsset,
+  edited: ImageAsset,
+  mask: ImageAsset,
+  featherPx = 6
+): Promise<ImageAsset> => {
+  const [baseImg, editedImg, maskImg] = await Promise.all([original, edited, mask].map(loadImageAsset));
+  const { width, height } = baseImg;
+
+  // Blur the mask, then clip the blur back to the painted area so it never spills outside
+  const soft = createCanvas(width, height);
+  soft.ctx.filter = `blur(${featherPx}px)`;
+  soft.ctx.drawImage(maskImg, 0, 0, width, height);
+  soft.ctx.filter = 'none';
+  soft.ctx.globalCompositeOperation = 'destination-in';
+  soft.ctx.drawImage(maskImg, 0, 0, width, height);
+
+  // Models don't always answer at the input size, so stretch the edit back onto the original
+  const patch = createCanvas(width, height);
+  patch.ctx.drawImage(editedImg, 0, 0, width, height);
+  patch.ctx.globalCompositeOperation = 'destination-in';
+  patch.ctx.drawImage(soft.canvas, 0, 0);
+
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.drawImage(baseImg, 0, 0);
+  ctx.drawImage(patch.canvas, 0, 0);
+  // PNG, because re-encoding as JPEG would touch the pixels outside the mask too
+  return dataUrlToImageAsset(canvas.toDataURL('image/png'));
+};
+
+// --- ZIP export ---
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Builds an uncompressed ("stored") ZIP archive. Images and videos are already compressed,
+// so deflating them again would cost time for almost no saving.
+export const createZip = async (files: { name: string; data: Blob }[]): Promise<Blob> => {
+  const encoder = new TextEncoder();
+  const parts: BlobPart[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const file of files) {
+    const name = encoder.encode(file.name);
+    const data = new Uint8Array(await file.data.arrayBuffer());
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true); // Local file header signature
+    local.setUint16(4, 20, true); // Version needed
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // Stored
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    parts.push(local.buffer, name, data);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true); // Central directory header signature
+    central.setUint16(4, 20, true); // Version made by
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+
+    offset += 30 + name.length + data.length;
+  }
+
+  const directorySize = centralDirectory.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true); // End of central directory signature
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...centralDirectory, end.buffer], { type: 'application/zip' });
+};
+
+// --- Text diff ---
+
+export interface DiffPart {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Word-level diff (longest common subsequence). Prompts are a few hundred words at most,
+// so the quadratic table is fine.
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.split(/\s+/).filter(Boolean);
+  const b = after.split(/\s+/).filter(Boolean);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Uint16Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (type: DiffPart['type'], word: string) => {
+    const last = parts[parts.length - 1];
+    if (last?.type === type) {
+      last.text += ` ${word}`;
+    } else {
+      parts.push({ type, text: word });
+    }
+  };
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      push('same', a[i]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};